@@ -0,0 +1,109 @@
+import { EventEmitter } from 'events';
+import {R} from 'rpscript-interface';
+import {ListenOnceOpts,ListenOnOpts,ErrorReporter,Subscription,once} from './events';
+
+/** Event emitted by the bus for every published message, with the payload and the topic. */
+export const MESSAGE_EVT = 'message';
+
+export interface PublishOpts {
+  /** Keep the message as the last one of its topic, for subscribers coming later. */
+  retain?:boolean;
+}
+
+export interface SubscribeOpts extends ListenOnOpts {
+  /** Also receive the retained messages of matching topics right away, defaults to true. */
+  retained?:boolean;
+}
+
+export interface NextMessageOpts extends ListenOnceOpts {
+  /** Resolve right away with a retained message of a matching topic, defaults to true. */
+  retained?:boolean;
+}
+
+/** True if topic, e.g. 'order.created', matches pattern, e.g. 'order.*' or 'order.**'. */
+export function matchTopic (pattern:string, topic:string) : boolean {
+  let patterns = pattern.split('.'), segments = topic.split('.');
+
+  let match = (i:number, j:number) : boolean => {
+    if(i === patterns.length) return j === segments.length;
+    // ** matches any number of segments, including none
+    if(patterns[i] === '**') return match(i + 1, j) || (j < segments.length && match(i, j + 1));
+    if(j === segments.length) return false;
+
+    return (patterns[i] === '*' || patterns[i] === segments[j]) && match(i + 1, j + 1);
+  };
+
+  return match(0, 0);
+}
+
+function checkTopic (topic:string, wildcards:boolean) : void {
+  let valid = typeof topic === 'string' && topic !== '' &&
+    R.all(segment => segment !== '' && (wildcards || segment !== '*' && segment !== '**'), topic.split('.'));
+
+  if(!valid) throw new Error(`Invalid topic '${topic}', expected dot separated names${wildcards ? ', * or **' : ''}`);
+}
+
+/**
+ * Named channels shared by every part of a script, and every module, running in one RpsContext.
+ * Messages are published on a topic; subscribers listen to a topic or a pattern of topics.
+ */
+export class EventBus extends EventEmitter {
+  private retained = new Map<string,any>();
+
+  constructor () {
+    super();
+    this.setMaxListeners(0);
+  }
+
+  /** Send payload to the subscribers of topic, returning the number of listeners reached. */
+  publish (topic:string, payload:any, opts:PublishOpts={}) : number {
+    checkTopic(topic, false);
+
+    if(opts.retain) {
+      if(payload === undefined) this.retained.delete(topic);
+      else this.retained.set(topic, payload);
+    }
+
+    let listeners = this.listenerCount(MESSAGE_EVT);
+    this.emit(MESSAGE_EVT, payload, topic);
+
+    return listeners;
+  }
+
+  /** Call cb with [payload, topic] for every message of a topic matching pattern. */
+  subscribe (pattern:string, cb:(params:any[]) => any, opts:SubscribeOpts={}, report?:ErrorReporter) : Subscription {
+    checkTopic(pattern, true);
+
+    let subscription = new Subscription(this, MESSAGE_EVT, cb, R.assoc('filter', this.matcher(pattern, opts.filter), opts), report);
+    if(opts.retained !== false) this.retainedOf(pattern).forEach(params => subscription.receive(params));
+
+    return subscription;
+  }
+
+  /** Resolve with [payload, topic] of the next message of a topic matching pattern. */
+  next (pattern:string, opts:NextMessageOpts={}) : Promise<any[]> {
+    checkTopic(pattern, true);
+
+    let filter = this.matcher(pattern, opts.filter);
+    if(opts.retained !== false) {
+      let retained = R.find(([payload, topic]) => filter(payload, topic), this.retainedOf(pattern));
+      if(retained) return Promise.resolve(retained);
+    }
+
+    return once(this, MESSAGE_EVT, R.merge(opts, {filter:filter, rejectOnError:false}));
+  }
+
+  /** Retained messages of the topics matching pattern, as [payload, topic]. */
+  retainedOf (pattern:string) : any[][] {
+    let messages = [];
+    this.retained.forEach((payload, topic) => {
+      if(matchTopic(pattern, topic)) messages.push([payload, topic]);
+    });
+
+    return messages;
+  }
+
+  private matcher (pattern:string, filter?:(...params:any[]) => any) : (payload:any, topic:string) => any {
+    return (payload, topic) => matchTopic(pattern, topic) && (!filter || filter(payload, topic));
+  }
+}
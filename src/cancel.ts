@@ -0,0 +1,58 @@
+import { EventEmitter } from 'events';
+
+/** Anything shaped like an AbortSignal, including the real one and CancelHandle. */
+export interface SignalLike {
+  readonly aborted:boolean;
+  readonly reason?:any;
+  addEventListener (type:'abort', listener:() => void) : void;
+  removeEventListener (type:'abort', listener:() => void) : void;
+}
+
+/**
+ * AbortController and AbortSignal in one, for Node versions without them.
+ * Pass it as the signal opt of a verb, and cancel it to stop that verb.
+ */
+export class CancelHandle implements SignalLike {
+  aborted = false;
+  reason:any;
+
+  private emitter = new EventEmitter;
+
+  cancel (reason?:any) : CancelHandle {
+    if(this.aborted) return this;
+
+    this.aborted = true;
+    this.reason = reason;
+    this.emitter.emit('abort');
+
+    return this;
+  }
+
+  /** Alias of cancel, as on AbortController. */
+  abort (reason?:any) : CancelHandle {
+    return this.cancel(reason);
+  }
+
+  addEventListener (type:'abort', listener:() => void) : void {
+    this.emitter.on(type, listener);
+  }
+
+  removeEventListener (type:'abort', listener:() => void) : void {
+    this.emitter.removeListener(type, listener);
+  }
+}
+
+/**
+ * Call onAbort when signal is aborted, right away if it already is.
+ * Returns a function removing the listener.
+ */
+export function whenAborted (signal:SignalLike, onAbort:() => void) : () => void {
+  if(!signal) return () => {};
+  if(signal.aborted) {
+    onAbort();
+    return () => {};
+  }
+
+  signal.addEventListener('abort', onAbort);
+  return () => signal.removeEventListener('abort', onAbort);
+}
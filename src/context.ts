@@ -0,0 +1,84 @@
+import {RpsContext,R} from 'rpscript-interface';
+import {LogLevel} from './logger';
+import {OutputSink,ConsoleSink} from './output';
+import {PromptInput} from './prompt';
+import {DEFAULT_STORE_PATH,scriptNamespace} from './store';
+import {Subscription} from './events';
+import {EventBus} from './bus';
+import {ExitHook} from './shutdown';
+
+/** Name under which the basic module reads its configuration from the RpsContext. */
+export const MODULE_NAME = 'basic';
+
+/**
+ * State of the basic module for one RpsContext.
+ * Configure it up front with ctx.addModuleContext('basic', {...}) to override the defaults.
+ */
+export interface BasicContext {
+  /** Minimum level printed by log and its companion verbs. */
+  logLevel?:LogLevel;
+  /** 'text' prints plain lines, 'json' prints one JSON object per line. */
+  logFormat?:'text'|'json';
+  /** Where printing verbs write to, defaults to the console. */
+  output?:OutputSink;
+  /** Where prompt verbs read answers from, defaults to process.stdin. */
+  input?:PromptInput;
+  /** Force prompts on or off. By default they are interactive when the input is a terminal. */
+  interactive?:boolean;
+  /** File used by persist, restore and forget. */
+  storePath?:string;
+  /** Namespace of the keys of persist, restore and forget, defaults to the path of the running script. */
+  storeNamespace?:string;
+  /** Subscriptions registered by name with listen-on. */
+  subscriptions?:{[name:string]:Subscription};
+  /** Bus of publish and subscribe of the context. Configure an EventBus of your own to share it with other code. */
+  bus?:EventBus;
+  /** Cleanups registered with on-exit, run by exit. */
+  exitHooks?:ExitHook[];
+}
+
+/** Factories of the default values, called only for the keys that are missing. */
+const DEFAULTS:{[key in keyof BasicContext]:() => any} = {
+  logLevel:() => 'info',
+  logFormat:() => 'text',
+  output:() => new ConsoleSink,
+  input:() => process.stdin,
+  storePath:() => DEFAULT_STORE_PATH,
+  storeNamespace:scriptNamespace,
+  subscriptions:() => ({}),
+  bus:() => new EventBus,
+  exitHooks:() => []
+};
+
+/** State of each context, kept apart because RpsContext shares its module contexts across instances. */
+const states = new WeakMap<RpsContext,BasicContext>();
+
+/** Configurations already applied, so that another context does not pick them up too. */
+const applied = new WeakSet<Object>();
+
+/**
+ * Return the basic module state of ctx, creating it on first use.
+ * A configuration added with ctx.addModuleContext('basic', {...}) and not yet applied to
+ * another context overrides its keys; the keys still missing are filled with the defaults.
+ */
+export function basicContext (ctx:RpsContext) : BasicContext {
+  let context = states.get(ctx);
+  if(!context) {
+    context = {};
+    states.set(ctx, context);
+  }
+
+  let config = ctx.getModuleContext(MODULE_NAME);
+  if(config && !applied.has(config)) {
+    applied.add(config);
+    R.forEachObjIndexed((value, key) => {
+      if(value !== undefined) context[key] = value;
+    }, config);
+  }
+
+  R.forEachObjIndexed((create, key) => {
+    if(context[key] === undefined) context[key] = create();
+  }, DEFAULTS);
+
+  return context;
+}
@@ -0,0 +1,246 @@
+/**
+ * Destructuring patterns for as and assign, e.g. '[head, ...rest]', '{name, address: {city}}'
+ * or '{port = 8080}'. Defaults are literals: numbers, quoted strings, true, false, null or JSON.
+ */
+
+interface Binding {
+  type:'name';
+  name:string;
+  default?:any;
+  hasDefault?:boolean;
+}
+
+interface ArrayPattern {
+  type:'array';
+  elements:Pattern[];
+  rest?:string;
+  default?:any;
+  hasDefault?:boolean;
+}
+
+interface ObjectPattern {
+  type:'object';
+  props:{key:string, target:Pattern}[];
+  rest?:string;
+  default?:any;
+  hasDefault?:boolean;
+}
+
+type Pattern = Binding|ArrayPattern|ObjectPattern;
+
+const IDENTIFIER = /^[$A-Za-z_][$\w]*/;
+
+/** True if text looks like a destructuring pattern rather than a variable name. */
+export function isPattern (text:any) : boolean {
+  return typeof text === 'string' && /^\s*[\[{]/.test(text);
+}
+
+class Parser {
+  private pos = 0;
+
+  constructor (private text:string) {}
+
+  parse () : Pattern {
+    let pattern = this.pattern();
+    this.skipSpace();
+    if(this.pos < this.text.length) this.fail('unexpected text');
+
+    return pattern;
+  }
+
+  private pattern () : Pattern {
+    this.skipSpace();
+    let char = this.text.charAt(this.pos);
+    let pattern:Pattern;
+
+    if(char === '[') pattern = this.arrayPattern();
+    else if(char === '{') pattern = this.objectPattern();
+    else pattern = {type:'name', name:this.identifier()};
+
+    this.withDefault(pattern);
+    return pattern;
+  }
+
+  private arrayPattern () : ArrayPattern {
+    let pattern:ArrayPattern = {type:'array', elements:[]};
+    this.expect('[');
+
+    while(!this.accept(']')) {
+      if(this.accept('...')) {
+        pattern.rest = this.identifier();
+        this.expect(']');
+        break;
+      }
+      if(this.peek(',')) pattern.elements.push(null);
+      else pattern.elements.push(this.pattern());
+
+      if(!this.accept(',')) {
+        this.expect(']');
+        break;
+      }
+    }
+    return pattern;
+  }
+
+  private objectPattern () : ObjectPattern {
+    let pattern:ObjectPattern = {type:'object', props:[]};
+    this.expect('{');
+
+    while(!this.accept('}')) {
+      if(this.accept('...')) {
+        pattern.rest = this.identifier();
+        this.expect('}');
+        break;
+      }
+
+      let key = this.peek('\'') || this.peek('"') ? this.quoted() : this.identifier();
+      let target:Pattern;
+      if(this.accept(':')) target = this.pattern();
+      else {
+        target = {type:'name', name:key};
+        this.withDefault(target);
+      }
+      pattern.props.push({key:key, target:target});
+
+      if(!this.accept(',')) {
+        this.expect('}');
+        break;
+      }
+    }
+    return pattern;
+  }
+
+  private withDefault (pattern:Pattern) : void {
+    if(!this.accept('=')) return;
+
+    pattern.hasDefault = true;
+    pattern.default = this.literal();
+  }
+
+  private literal () : any {
+    this.skipSpace();
+    if(this.peek('\'') || this.peek('"')) return this.quoted();
+
+    let start = this.pos;
+    let depth = 0, quote = null;
+
+    for(; this.pos < this.text.length; this.pos++) {
+      let char = this.text.charAt(this.pos);
+
+      if(quote) {
+        if(char === '\\') this.pos++;
+        else if(char === quote) quote = null;
+      }
+      else if(char === '\'' || char === '"') quote = char;
+      else if(char === '[' || char === '{') depth++;
+      else if(char === ']' || char === '}' || char === ',') {
+        if(depth === 0) break;
+        if(char !== ',') depth--;
+      }
+    }
+
+    let raw = this.text.slice(start, this.pos).trim();
+    if(raw === '') this.fail('missing default value');
+    if(raw === 'undefined') return undefined;
+
+    try {
+      return JSON.parse(raw);
+    }
+    catch(e) {
+      this.fail(`invalid default value ${raw}`);
+    }
+  }
+
+  private quoted () : string {
+    let quote = this.text.charAt(this.pos);
+    let value = '';
+
+    for(this.pos++; this.pos < this.text.length; this.pos++) {
+      let char = this.text.charAt(this.pos);
+      if(char === quote) {
+        this.pos++;
+        return value;
+      }
+      if(char === '\\') char = this.text.charAt(++this.pos);
+      value += char;
+    }
+    this.fail('unterminated string');
+  }
+
+  private identifier () : string {
+    this.skipSpace();
+    let match = IDENTIFIER.exec(this.text.slice(this.pos));
+    if(!match) this.fail('expected a variable name');
+
+    this.pos += match[0].length;
+    return match[0];
+  }
+
+  private peek (token:string) : boolean {
+    this.skipSpace();
+    return this.text.startsWith(token, this.pos);
+  }
+
+  private accept (token:string) : boolean {
+    if(!this.peek(token)) return false;
+
+    this.pos += token.length;
+    return true;
+  }
+
+  private expect (token:string) : void {
+    if(!this.accept(token)) this.fail(`expected '${token}'`);
+  }
+
+  private skipSpace () : void {
+    while(/\s/.test(this.text.charAt(this.pos))) this.pos++;
+  }
+
+  private fail (reason:string) : never {
+    throw new Error(`Invalid destructuring pattern '${this.text}': ${reason} at position ${this.pos}`);
+  }
+}
+
+function bind (pattern:Pattern, value:any, path:string, bindings:[string,any][]) : void {
+  if(value === undefined && pattern.hasDefault) value = pattern.default;
+
+  if(pattern.type === 'name') {
+    bindings.push([pattern.name, value]);
+  }
+  else if(pattern.type === 'array') {
+    if(value === null || value === undefined || typeof value[Symbol.iterator] !== 'function')
+      throw new Error(`Cannot destructure ${path}: expected a list but got ${describe(value)}`);
+
+    let items = Array.from(value);
+    pattern.elements.forEach((element, i) => {
+      if(element) bind(element, items[i], `${path}[${i}]`, bindings);
+    });
+    if(pattern.rest) bindings.push([pattern.rest, items.slice(pattern.elements.length)]);
+  }
+  else {
+    if(value === null || value === undefined || typeof value !== 'object' && typeof value !== 'function')
+      throw new Error(`Cannot destructure ${path}: expected an object but got ${describe(value)}`);
+
+    pattern.props.forEach(prop => bind(prop.target, value[prop.key], `${path}.${prop.key}`, bindings));
+
+    if(pattern.rest) {
+      let rest = Object.assign({}, value);
+      pattern.props.forEach(prop => delete rest[prop.key]);
+      bindings.push([pattern.rest, rest]);
+    }
+  }
+}
+
+function describe (value:any) : string {
+  if(value === null) return 'null';
+  if(Array.isArray(value)) return 'a list';
+  return typeof value;
+}
+
+/** Names bound by matching value against pattern, in pattern order. */
+export function destructure (pattern:string, value:any) : [string,any][] {
+  let bindings:[string,any][] = [];
+  bind(new Parser(pattern).parse(), value, 'value', bindings);
+
+  return bindings;
+}
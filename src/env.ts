@@ -0,0 +1,99 @@
+import fs from 'fs';
+import {R} from 'rpscript-interface';
+
+export type EnvType = 'string'|'number'|'boolean'|'json'|'list';
+
+export interface EnvAsOpts {
+  /** Separator of list items, defaults to ','. */
+  separator?:string;
+}
+
+export interface LoadEnvOpts {
+  /** Also bind every entry as a script variable, as the as verb does. */
+  bind?:boolean;
+  /** Overwrite variables already set in process.env. */
+  override?:boolean;
+}
+
+const TRUE = ['true','1','yes','y','on'];
+const FALSE = ['false','0','no','n','off'];
+
+/** Names in names that are not set, or set to an empty string, in the environment. */
+export function missingEnv (names:string[]) : string[] {
+  return R.filter(name => process.env[name] === undefined || process.env[name] === '', names);
+}
+
+/** Convert the text of an environment variable to type, throwing if it does not fit. */
+export function coerce (name:string, text:string, type:EnvType, opts:EnvAsOpts={}) : any {
+  let fail = (expected:string) => {
+    throw new Error(`Environment variable ${name} is not ${expected}: '${text}'`);
+  };
+
+  switch(type) {
+    case 'string':
+      return text;
+    case 'number':
+      let num = Number(text);
+      if(text.trim() === '' || isNaN(num)) fail('a number');
+      return num;
+    case 'boolean':
+      let lower = text.trim().toLowerCase();
+      if(R.contains(lower, TRUE)) return true;
+      if(R.contains(lower, FALSE)) return false;
+      return fail('a boolean');
+    case 'json':
+      try {
+        return JSON.parse(text);
+      }
+      catch(e) {
+        return fail('valid JSON');
+      }
+    case 'list':
+      if(text.trim() === '') return [];
+      return text.split(opts.separator || ',').map(item => item.trim());
+    default:
+      throw new Error(`Unknown type '${type}', expected string, number, boolean, json or list`);
+  }
+}
+
+function unquote (value:string) : string {
+  let quote = value.charAt(0);
+
+  if(quote === '"') {
+    let end = value.lastIndexOf('"');
+    return value.slice(1, end > 0 ? end : undefined)
+      .replace(/\\n/g, '\n').replace(/\\r/g, '\r').replace(/\\t/g, '\t').replace(/\\"/g, '"');
+  }
+  if(quote === '\'') {
+    let end = value.lastIndexOf('\'');
+    return value.slice(1, end > 0 ? end : undefined);
+  }
+
+  // unquoted values end at a comment
+  return value.replace(/\s+#.*$/, '').trim();
+}
+
+/**
+ * Parse the content of a .env file: KEY=VALUE lines, optionally prefixed by export,
+ * with # comments, single quoted literal values and double quoted values with escapes.
+ */
+export function parseEnv (text:string) : {[name:string]:string} {
+  let entries = {};
+
+  text.split(/\r?\n/).forEach((line, i) => {
+    line = line.trim();
+    if(line === '' || line.charAt(0) === '#') return;
+
+    let match = /^(?:export\s+)?([\w.-]+)\s*=\s*(.*)$/.exec(line);
+    if(!match) throw new Error(`Invalid .env line ${i + 1}: ${line}`);
+
+    entries[match[1]] = unquote(match[2]);
+  });
+
+  return entries;
+}
+
+/** Parse a .env file. */
+export function readEnvFile (file:string) : {[name:string]:string} {
+  return parseEnv(fs.readFileSync(file, 'utf8'));
+}
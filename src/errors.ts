@@ -0,0 +1,17 @@
+/** Raised when an operation does not complete within its timeout. */
+export class TimeoutError extends Error {
+  readonly name = 'TimeoutError';
+
+  constructor (message:string, readonly timeout?:number) {
+    super(message);
+  }
+}
+
+/** Raised when an operation is cancelled through its signal. */
+export class AbortError extends Error {
+  readonly name = 'AbortError';
+
+  constructor (message:string, readonly reason?:any) {
+    super(message);
+  }
+}
@@ -0,0 +1,432 @@
+import { EventEmitter } from 'events';
+import {R} from 'rpscript-interface';
+import {TimeoutError,AbortError} from './errors';
+import {SignalLike,whenAborted} from './cancel';
+import {Duration,toSeconds} from './time';
+
+export interface ListenOnceOpts {
+  /** Time to wait before rejecting with a TimeoutError, in seconds or as a text like '30s'. */
+  timeout?:Duration;
+  /** Reject when the emitter emits 'error', defaults to true. */
+  rejectOnError?:boolean;
+  /** Reject with an AbortError once the signal is aborted. */
+  signal?:SignalLike;
+  /** Only resolve on the first event whose payload satisfies the predicate. */
+  filter?:(...params:any[]) => any;
+}
+
+/**
+ * Resolve with the parameters of the next evtName event of emitter.
+ * All listeners are removed as soon as the promise settles.
+ */
+export function once (emitter:EventEmitter, evtName:string, opts:ListenOnceOpts={}) : Promise<any[]> {
+  return new Promise((resolve, reject) => {
+    let settled = false;
+    let timer:NodeJS.Timer;
+    let stopAbort = () => {};
+    let rejectOnError = opts.rejectOnError !== false && evtName !== 'error';
+    let timeout = opts.timeout === undefined || opts.timeout === null ? undefined : toSeconds(opts.timeout);
+
+    let settle = (fn:Function, value:any) => {
+      if(settled) return;
+      settled = true;
+
+      emitter.removeListener(evtName, onEvent);
+      if(rejectOnError) emitter.removeListener('error', onError);
+      if(timer) clearTimeout(timer);
+      stopAbort();
+
+      fn(value);
+    };
+
+    let onEvent = (...params) => {
+      if(!opts.filter) return settle(resolve, params);
+
+      new Promise(resolve => resolve(opts.filter(...params)))
+        .then(matched => matched && settle(resolve, params), err => settle(reject, err));
+    };
+    let onError = (err) => settle(reject, err);
+
+    emitter.on(evtName, onEvent);
+    if(rejectOnError) emitter.on('error', onError);
+
+    if(timeout !== undefined) {
+      timer = setTimeout(() =>
+        settle(reject, new TimeoutError(`Timed out after ${timeout}s waiting for '${evtName}'`, timeout)),
+        timeout * 1000);
+    }
+
+    stopAbort = whenAborted(opts.signal, () =>
+      settle(reject, new AbortError(`Cancelled while waiting for '${evtName}'`, opts.signal.reason)));
+  });
+}
+
+export interface ListenOnOpts {
+  /** Register the subscription under this name, for listen-off. */
+  name?:string;
+  /** Return the subscription instead of the emitter. */
+  handle?:boolean;
+  /** Unsubscribe after the callback was called that many times. */
+  times?:number;
+  /** Only handle events whose parameters satisfy the predicate, which may return a promise. */
+  filter?:(...params:any[]) => any;
+  /** Skip events whose parameters equal the ones of the previous event. */
+  distinct?:boolean;
+  /** Handle at most one event per that many seconds, the first one. */
+  throttle?:number;
+  /** Wait until no event came for that many seconds. */
+  debounce?:number;
+  /** With debounce, handle the first event of a burst. Defaults to false. */
+  leading?:boolean;
+  /** With debounce, handle the last event of a burst. Defaults to true. */
+  trailing?:boolean;
+}
+
+/** Subscriptions made by listen-on, by emitter. */
+const subscriptions = new WeakMap<EventEmitter,Subscription[]>();
+
+/** Called with the errors of a subscription that have no caller to go back to. */
+export type ErrorReporter = (err:any) => void;
+
+const reportToStderr:ErrorReporter = err => process.stderr.write(`Listener failed: ${err && err.message || err}\n`);
+
+/**
+ * A callback listening to an event of an emitter, until unsubscribed.
+ * Events go through filter, distinct, throttle and debounce, in that order, before reaching the callback.
+ * Errors of the filter, of the callback once debounced, and rejections of async callbacks, are emitted
+ * as 'error' on the emitter when it has error listeners, else passed to report.
+ */
+export class Subscription {
+  calls = 0;
+  active = true;
+
+  private listener:(...params:any[]) => void;
+  private previous:any[];
+  private lastHandled:number;
+  private timer:NodeJS.Timer;
+  private pending:any[];
+
+  constructor (readonly emitter:EventEmitter, readonly evtName:string, private cb:(params:any[]) => any, readonly opts:ListenOnOpts={},
+    private report:ErrorReporter=reportToStderr) {
+    this.listener = (...params) => this.receive(params);
+    emitter.on(evtName, this.listener);
+
+    subscriptions.set(emitter, (subscriptions.get(emitter) || []).concat(this));
+  }
+
+  unsubscribe () : Subscription {
+    if(!this.active) return this;
+
+    this.active = false;
+    this.emitter.removeListener(this.evtName, this.listener);
+    if(this.timer) clearTimeout(this.timer);
+    subscriptions.set(this.emitter, (subscriptions.get(this.emitter) || []).filter(sub => sub !== this));
+
+    return this;
+  }
+
+  /** Pass the parameters of an event through the opts to the callback, as if it was emitted. */
+  receive (params:any[]) : any {
+    if(!this.active) return;
+    let opts = this.opts;
+
+    if(opts.filter) {
+      let matched;
+      try {
+        matched = opts.filter(...params);
+      }
+      catch(err) {
+        return this.fail(err);
+      }
+
+      // an async filter holds the event back until it resolves, as in listen-once
+      if(matched && typeof matched.then === 'function')
+        return matched.then(ok => ok ? this.pass(params) : undefined).then(null, err => this.fail(err));
+      if(!matched) return;
+    }
+
+    return this.pass(params);
+  }
+
+  private pass (params:any[]) : any {
+    let opts = this.opts;
+
+    if(opts.distinct) {
+      let same = this.previous !== undefined && R.equals(this.previous, params);
+      this.previous = params;
+      if(same) return;
+    }
+
+    if(opts.throttle !== undefined) {
+      let now = Date.now();
+      if(this.lastHandled !== undefined && now - this.lastHandled < opts.throttle * 1000) return;
+      this.lastHandled = now;
+    }
+
+    if(opts.debounce !== undefined) return this.debounce(params);
+    return this.call(params);
+  }
+
+  private debounce (params:any[]) : void {
+    let burstStart = !this.timer;
+    if(this.timer) clearTimeout(this.timer);
+
+    this.pending = params;
+    if(burstStart && this.opts.leading) {
+      this.pending = undefined;
+      this.call(params);
+    }
+
+    this.timer = setTimeout(() => {
+      this.timer = undefined;
+      let pending = this.pending;
+      this.pending = undefined;
+
+      if(pending && this.opts.trailing !== false)
+        Promise.resolve().then(() => this.call(pending)).catch(err => this.fail(err));
+    }, this.opts.debounce * 1000);
+  }
+
+  private fail (err:any) : void {
+    if(this.evtName !== 'error' && this.emitter.listenerCount('error') > 0) this.emitter.emit('error', err);
+    else this.report(err);
+  }
+
+  private call (params:any[]) : any {
+    if(!this.active) return;
+
+    this.calls++;
+    if(this.opts.times !== undefined && this.calls >= this.opts.times) this.unsubscribe();
+
+    let result = this.cb(params);
+    // the rejection of an async callback has no caller to go back to
+    if(result && typeof result.then === 'function') return result.then(null, err => this.fail(err));
+
+    return result;
+  }
+}
+
+/** Active subscriptions made by listen-on to evtName of emitter, or to any event if evtName is not given. */
+export function subscriptionsOf (emitter:EventEmitter, evtName?:string) : Subscription[] {
+  return (subscriptions.get(emitter) || []).filter(sub => evtName === undefined || sub.evtName === evtName);
+}
+
+export interface CollectOpts {
+  /** Stop once that many payloads are collected. */
+  count?:number;
+  /** Stop after that long, in seconds or as a text like '5m'. */
+  timeout?:Duration;
+  /** Stop when the emitter emits this event. */
+  until?:string;
+  /** Stop after the first payload satisfying the predicate, which is collected too. */
+  stopWhen?:(payload:any) => any;
+  /** Reject with an AbortError once the signal is aborted. */
+  signal?:SignalLike;
+}
+
+/** Payload of an event: its only parameter, or the list of its parameters. */
+function payloadOf (params:any[]) : any {
+  return params.length === 1 ? params[0] : params;
+}
+
+/**
+ * Resolve with the payloads of evtName events until count, timeout, the until event
+ * or stopWhen is reached, whichever comes first. Rejects when the emitter emits 'error'.
+ */
+export function collect (emitter:EventEmitter, evtName:string, opts:CollectOpts={}) : Promise<any[]> {
+  let {count, until, stopWhen} = opts;
+  if(count === undefined && opts.timeout === undefined && until === undefined && stopWhen === undefined)
+    return Promise.reject(new Error('collect-events needs a count, timeout, until or stopWhen opt'));
+
+  return new Promise((resolve, reject) => {
+    let timeout = opts.timeout === undefined ? undefined : toSeconds(opts.timeout);
+    let payloads = [];
+    let settled = false;
+    let timer:NodeJS.Timer;
+    let stopAbort = () => {};
+
+    let settle = (fn:Function, value:any) => {
+      if(settled) return;
+      settled = true;
+
+      emitter.removeListener(evtName, onEvent);
+      emitter.removeListener('error', onError);
+      if(until !== undefined) emitter.removeListener(until, onUntil);
+      if(timer) clearTimeout(timer);
+      stopAbort();
+
+      fn(value);
+    };
+
+    let onEvent = (...params) => {
+      if(settled) return;
+
+      let payload = payloadOf(params);
+      payloads.push(payload);
+
+      if(count !== undefined && payloads.length >= count) return settle(resolve, payloads);
+      if(stopWhen) {
+        try {
+          if(stopWhen(payload)) settle(resolve, payloads);
+        }
+        catch(err) {
+          settle(reject, err);
+        }
+      }
+    };
+    let onUntil = () => settle(resolve, payloads);
+    let onError = (err) => settle(reject, err);
+
+    emitter.on(evtName, onEvent);
+    emitter.on('error', onError);
+    if(until !== undefined) emitter.on(until, onUntil);
+
+    if(count !== undefined && count <= 0) return settle(resolve, payloads);
+    if(timeout !== undefined) timer = setTimeout(() => settle(resolve, payloads), timeout * 1000);
+
+    stopAbort = whenAborted(opts.signal, () =>
+      settle(reject, new AbortError(`Cancelled while collecting '${evtName}'`, opts.signal.reason)));
+  });
+}
+
+export type OverflowPolicy = 'drop-oldest'|'drop-newest'|'error';
+
+export interface EventQueueOpts {
+  /** Maximum number of events waiting to be consumed, defaults to 100. */
+  maxQueue?:number;
+  /** What to do with an event arriving when the queue is full, defaults to 'error'. */
+  overflow?:OverflowPolicy;
+  /** End the iteration when the emitter emits this event. */
+  until?:string;
+  /** Fail the iteration with an AbortError once the signal is aborted. */
+  signal?:SignalLike;
+}
+
+/**
+ * Async iterator over the parameters of evtName events, buffering the ones not consumed yet.
+ * The iteration ends on the until event or close, and fails when the emitter emits 'error',
+ * when the queue overflows with the 'error' policy, or when the signal is aborted.
+ * Events buffered before a failure are still delivered.
+ */
+export class EventQueue implements AsyncIterableIterator<any[]> {
+  dropped = 0;
+
+  private buffer:any[][] = [];
+  private waiting:{resolve:Function, reject:Function}[] = [];
+  private failure:Error;
+  private ended = false;
+  private readonly maxQueue:number;
+  private readonly overflow:OverflowPolicy;
+  private readonly onEvent = (...params) => this.push(params);
+  private readonly onError = (err) => this.fail(err);
+  private readonly onUntil = () => this.close();
+  private stopAbort = () => {};
+
+  constructor (readonly emitter:EventEmitter, readonly evtName:string, private opts:EventQueueOpts={}) {
+    this.maxQueue = opts.maxQueue === undefined ? 100 : opts.maxQueue;
+    this.overflow = opts.overflow || 'error';
+    if(['drop-oldest','drop-newest','error'].indexOf(this.overflow) < 0)
+      throw new Error(`Unknown overflow policy '${this.overflow}', expected drop-oldest, drop-newest or error`);
+
+    emitter.on(evtName, this.onEvent);
+    emitter.on('error', this.onError);
+    if(opts.until !== undefined) emitter.on(opts.until, this.onUntil);
+
+    this.stopAbort = whenAborted(opts.signal, () =>
+      this.fail(new AbortError(`Cancelled while iterating '${evtName}'`, opts.signal.reason)));
+  }
+
+  next () : Promise<IteratorResult<any[]>> {
+    if(this.buffer.length > 0) return Promise.resolve({value:this.buffer.shift(), done:false});
+    if(this.failure) {
+      let err = this.failure;
+      this.failure = null;
+      return Promise.reject(err);
+    }
+    if(this.ended) return Promise.resolve({value:undefined, done:true});
+
+    return new Promise((resolve, reject) => this.waiting.push({resolve, reject}));
+  }
+
+  return () : Promise<IteratorResult<any[]>> {
+    this.close();
+    return Promise.resolve({value:undefined, done:true});
+  }
+
+  [Symbol.asyncIterator] () : AsyncIterableIterator<any[]> {
+    return this;
+  }
+
+  /** Stop listening. Buffered events are still delivered, then the iteration ends. */
+  close () : void {
+    if(this.ended) return;
+    this.ended = true;
+
+    this.emitter.removeListener(this.evtName, this.onEvent);
+    this.emitter.removeListener('error', this.onError);
+    if(this.opts.until !== undefined) this.emitter.removeListener(this.opts.until, this.onUntil);
+    this.stopAbort();
+
+    this.waiting.splice(0).forEach(waiter => waiter.resolve({value:undefined, done:true}));
+  }
+
+  private push (params:any[]) : void {
+    if(this.waiting.length > 0) return this.waiting.shift().resolve({value:params, done:false});
+
+    if(this.buffer.length < this.maxQueue) {
+      this.buffer.push(params);
+      return;
+    }
+
+    if(this.overflow === 'drop-newest') this.dropped++;
+    else if(this.overflow === 'drop-oldest') {
+      this.dropped++;
+      this.buffer.shift();
+      this.buffer.push(params);
+    }
+    else this.fail(new Error(`Event queue of '${this.evtName}' overflowed its ${this.maxQueue} slots`));
+  }
+
+  private fail (err:Error) : void {
+    if(this.ended) return;
+
+    // waiters only exist while the buffer is empty
+    let waiters = this.waiting.splice(0);
+    this.close();
+
+    if(waiters.length > 0) waiters.forEach(waiter => waiter.reject(err));
+    else this.failure = err;
+  }
+}
+
+export type ErrorPolicy = 'stop'|'continue';
+
+export interface ForEachEventOpts extends EventQueueOpts {
+  /** 'stop' rejects on the first failing handler, 'continue' goes on with the next event. Defaults to 'stop'. */
+  onError?:ErrorPolicy;
+}
+
+/**
+ * Call handler with the parameters of each event of queue, one at a time,
+ * waiting for the promise it returns before taking the next event.
+ * Resolves with the number of events handled once the queue ends.
+ */
+export async function forEachEvent (queue:EventQueue, handler:(params:any[]) => any, onError:ErrorPolicy='stop') : Promise<number> {
+  let handled = 0;
+
+  while(true) {
+    let item = await queue.next();
+    if(item.done) return handled;
+
+    try {
+      await handler(item.value);
+      handled++;
+    }
+    catch(err) {
+      if(onError !== 'continue') {
+        queue.close();
+        throw err;
+      }
+    }
+  }
+}
@@ -0,0 +1,66 @@
+import util from 'util';
+
+const SPECIFIER = /%([-+ 0]*)(\d+)?(?:\.(\d+))?([sdifjo%])/g;
+
+/** JSON conversion shared by stringify and the %j specifier. */
+export function toJson (obj:any) : string {
+  return JSON.stringify(obj);
+}
+
+function pad (text:string, flags:string, width?:string) : string {
+  let size = width ? parseInt(width, 10) : 0;
+  if(text.length >= size) return text;
+
+  if(flags.indexOf('-') >= 0) return text + ' '.repeat(size - text.length);
+
+  if(flags.indexOf('0') >= 0 && /^[+-]?\d/.test(text)) {
+    let sign = /^[+-]/.test(text) ? text.charAt(0) : '';
+    let digits = sign ? text.slice(1) : text;
+    return sign + '0'.repeat(size - text.length) + digits;
+  }
+
+  return ' '.repeat(size - text.length) + text;
+}
+
+function sign (num:number, text:string, flags:string) : string {
+  if(num < 0 || isNaN(num)) return text;
+  if(flags.indexOf('+') >= 0) return '+' + text;
+  if(flags.indexOf(' ') >= 0) return ' ' + text;
+  return text;
+}
+
+function convert (type:string, value:any, flags:string, precision?:string) : string {
+  switch(type) {
+    case 's':
+      let text = typeof value === 'string' ? value : String(value);
+      return precision !== undefined ? text.slice(0, parseInt(precision, 10)) : text;
+    case 'd':
+    case 'i':
+      let int = Math.trunc(Number(value));
+      return sign(int, String(int), flags);
+    case 'f':
+      let num = Number(value);
+      return sign(num, precision !== undefined ? num.toFixed(parseInt(precision, 10)) : String(num), flags);
+    case 'j':
+      // JSON.stringify gives undefined for undefined, functions and symbols
+      return String(toJson(value));
+    case 'o':
+      return util.inspect(value);
+  }
+}
+
+/**
+ * printf style formatting of template with args.
+ * Supports %s %d %i %f %j %o and %%, with -, 0, + and space flags, width and precision.
+ * Specifiers without a matching argument are left as they are.
+ */
+export function format (template:string, args:any[]) : string {
+  let index = 0;
+
+  return String(template).replace(SPECIFIER, (spec, flags, width, precision, type) => {
+    if(type === '%') return '%';
+    if(index >= args.length) return spec;
+
+    return pad(convert(type, args[index++], flags, precision), flags, width);
+  });
+}
@@ -1,5 +1,31 @@
 import {RpsContext,RpsModule,rpsAction,R} from 'rpscript-interface';
 import { EventEmitter } from 'events';
+import {basicContext} from './context';
+import {LogOpts,toLevel,isEnabled,isErrorLevel,toText,toJsonLine} from './logger';
+import {OutputStream,toOutput,isTerminal} from './output';
+import {StyleOpts,toStyles,applyStyles,stripAnsi,shouldStyle,noColor} from './style';
+import {InspectOpts,inspect} from './inspect';
+import {TableOpts,renderTable} from './table';
+import {toJson,format} from './format';
+import {PromptOpts,SecretOpts,prompt,label,toBoolean,toChoice,isInteractive} from './prompt';
+import {ProgressOpts,ProgressBar,Spinner} from './progress';
+import {StoreOpts,JsonStore} from './store';
+import {InterpolateOpts,interpolate} from './interpolate';
+import {CancelHandle} from './cancel';
+import {ListenOnceOpts,ListenOnOpts,ErrorReporter,CollectOpts,EventQueueOpts,ForEachEventOpts,Subscription,EventQueue,once,subscriptionsOf,collect,forEachEvent} from './events';
+import {SleepOpts,PollOpts,sleep,poll} from './time';
+import {OnExitOpts,ExitOpts,onExit,shutdownAll} from './shutdown';
+import {PublishOpts,SubscribeOpts,NextMessageOpts} from './bus';
+import {EnvType,EnvAsOpts,LoadEnvOpts,missingEnv,coerce,readEnvFile} from './env';
+import {ConstOpts,toVarName,assignVar,setConst,hasVar,unsetVar,listVars,withFrame,watchVar} from './variables';
+
+export {BasicContext} from './context';
+export {OutputSink,OutputStream,ConsoleSink,MemorySink,FileSink,FileSinkOpts} from './output';
+export {ProgressBar,Spinner} from './progress';
+export {CancelHandle,SignalLike} from './cancel';
+export {TimeoutError,AbortError} from './errors';
+export {Subscription,EventQueue} from './events';
+export {EventBus} from './bus';
 
 /** Basic utility for rpscript. 
  * RPScript make heavy use of ramda for utility and data manipulation. A lot of the keywords here are a direct port from ramda.
@@ -20,29 +46,118 @@ export default class RPSBasic {
  * log 'Hello' 'World'
  * ;print 'Hello' again
  * log $RESULT
+ * ;print only if the context's level is debug
+ * log --level=debug 'details'
+ * ;print as a JSON line with timestamp
+ * log --json 'Hello'
+ * ;with the script variables too
+ * log --json --vars 'Hello'
+ * ;print the details of any value
+ * log --inspect $RESULT
  * 
  * @param {List} text information to be printed out on the terminal.
  * @returns {*}  Similar to text input.
  * @summary log :: ...a → a
  * @description
- * This is a wrapper for javascript console.log function.
- * 
- * @see {@link https://www.w3schools.com/jsref/met_console_log.asp}
+ * Prints each text on its own line to the output sink of the context, the console by default.
+ * The level opt (debug, info, warn or error) defaults to info. Messages below the
+ * logLevel of the context's basic module are skipped, warn and error go to stderr.
+ * With the json opt, or logFormat 'json' on the context, each message is printed as
+ * a JSON line holding the timestamp, level and message. The vars opt adds the script variables,
+ * it is off by default since they may hold secrets read by ask-secret or load-env.
+ * With the stripAnsi opt, ANSI styling is removed unless the output sink is a terminal.
+ * With the inspect opt, values other than strings are printed as with the inspect verb.
+ * Without text, a logger function with the same opts is returned.
  * 
 */
   @rpsAction({verbName:'log'})
-  async print(ctx:RpsContext,opts:{}, ...text:any[]) : Promise<any>{
+  async print(ctx:RpsContext,opts:LogOpts, ...text:any[]) : Promise<any>{
+    opts = opts || {};
+    let level = toLevel(opts.level);
+
+    let logger = function (...txt:any[]) {
+      let context = basicContext(ctx);
+      if(!isEnabled(level, context.logLevel)) return;
+
+      let stream:OutputStream = isErrorLevel(level) ? 'stderr' : 'stdout';
+      if(opts.inspect) {
+        let inspectOpts = R.merge({color:isTerminal(context.output, stream) && !noColor()}, opts.inspect);
+        txt = txt.map(t => typeof t === 'string' ? t : inspect(t, inspectOpts));
+      }
+      if(opts.stripAnsi && !isTerminal(context.output, stream))
+        txt = txt.map(t => typeof t === 'string' ? stripAnsi(t) : t);
+
+      let json = opts.json !== undefined ? opts.json : context.logFormat === 'json';
+      let line = json ? toJsonLine(ctx, level, txt, opts.vars === true) : toText(txt);
+
+      context.output.write(line+'\n', stream);
+    };
+
     if(text && text.length > 0){
-      console.log(R.join('\n',text));
+      logger(...text);
 
       if(text.length==1) return text[0];
       else return text;
     }
     else {
-      return console.log;
+      return logger;
     }
   }
 
+/**
+ * @function log-debug
+ * @memberof Basic
+ * @example
+ * log-debug 'Fetched' $rows
+ * 
+ * @param {List} text information to be printed out on the terminal.
+ * @returns {*}  Similar to text input.
+ * @summary log-debug :: ...a → a
+ * @description
+ * Same as log with the debug level.
+ * 
+*/
+  @rpsAction({verbName:'log-debug'})
+  async logDebug(ctx:RpsContext,opts:LogOpts, ...text:any[]) : Promise<any>{
+    return this.print(ctx, R.assoc('level','debug',opts), ...text);
+  }
+
+/**
+ * @function log-warn
+ * @memberof Basic
+ * @example
+ * log-warn 'Retrying'
+ * 
+ * @param {List} text information to be printed out on stderr.
+ * @returns {*}  Similar to text input.
+ * @summary log-warn :: ...a → a
+ * @description
+ * Same as log with the warn level.
+ * 
+*/
+  @rpsAction({verbName:'log-warn'})
+  async logWarn(ctx:RpsContext,opts:LogOpts, ...text:any[]) : Promise<any>{
+    return this.print(ctx, R.assoc('level','warn',opts), ...text);
+  }
+
+/**
+ * @function log-error
+ * @memberof Basic
+ * @example
+ * log-error 'Login failed'
+ * 
+ * @param {List} text information to be printed out on stderr.
+ * @returns {*}  Similar to text input.
+ * @summary log-error :: ...a → a
+ * @description
+ * Same as log with the error level.
+ * 
+*/
+  @rpsAction({verbName:'log-error'})
+  async logError(ctx:RpsContext,opts:LogOpts, ...text:any[]) : Promise<any>{
+    return this.print(ctx, R.assoc('level','error',opts), ...text);
+  }
+
   /**
  * @function stdout
  * @memberof Basic
@@ -53,22 +168,244 @@ export default class RPSBasic {
  * @param {string} text information to be printed out on the terminal.
  * @returns {*}  Similar to text input.
  * @summary stdout :: a → a
+ * @description
+ * Writes text without a trailing newline to the output sink of the context, process.stdout by default.
+ * With the stripAnsi opt, ANSI styling is removed unless the output sink is a terminal.
  * 
  * @see {@link https://nodejs.org/api/process.html#process_process_stdout}
  * 
 */
 @rpsAction({verbName:'stdout'})
-async stdout(ctx:RpsContext,opts:{}, text?:any) : Promise<any>{
+async stdout(ctx:RpsContext,opts:{stripAnsi?:boolean}, text?:any) : Promise<any>{
+  let write = function (txt) {
+    let output = basicContext(ctx).output;
+    let out = toOutput(txt);
+    if(opts && opts.stripAnsi && !isTerminal(output)) out = stripAnsi(out);
+
+    output.write(out);
+    return txt;
+  };
+
   if(text){
-    process.stdout.write(text);
-    return text;
+    return write(text);
   }
   else {
-    return function (txt) {
-      process.stdout.write(txt);
-      return txt;
-    }
+    return write;
+  }
+}
+
+/**
+ * @function ask
+ * @memberof Basic
+ * @example
+ * ask 'What is your name?' | as 'name'
+ * ask --default=8080 --validate=(test /^\d+$/) 'Port?'
+ * 
+ * @param {string} question Question printed before reading the answer.
+ * @returns {string} The answer.
+ * @summary ask :: String → String
+ * @description
+ * Reads a line from the input of the context, process.stdin by default.
+ * The default opt is used for an empty answer. Answers failing the validate opt,
+ * a predicate such as (test /regex/) or a RegExp, are asked again up to the attempts opt (3).
+ * When the input is not a terminal, or the context sets interactive to false, the default
+ * is returned without asking, and an error is raised if there is none.
+ * 
+*/
+@rpsAction({verbName:'ask'})
+async ask (ctx:RpsContext,opts:PromptOpts, question:string) : Promise<string>{
+  opts = opts || {};
+  return prompt(ctx, label(question, opts.default), opts, R.identity);
+}
+
+/**
+ * @function ask-secret
+ * @memberof Basic
+ * @example
+ * ask-secret 'Password:' | as 'password'
+ * 
+ * @param {string} question Question printed before reading the answer.
+ * @returns {string} The answer.
+ * @summary ask-secret :: String → String
+ * @description
+ * Same as ask, but typed characters are echoed as the mask opt ('*' by default) on a terminal.
+ * 
+*/
+@rpsAction({verbName:'ask-secret'})
+async askSecret (ctx:RpsContext,opts:SecretOpts, question:string) : Promise<string>{
+  opts = opts || {};
+  return prompt(ctx, label(question), opts, R.identity, true);
+}
+
+/**
+ * @function confirm
+ * @memberof Basic
+ * @example
+ * confirm 'Delete all files?' | when (equals true) (exit)
+ * 
+ * @param {string} question Question printed before reading the answer.
+ * @returns {boolean} True for y or yes, false for n or no.
+ * @summary confirm :: String → Boolean
+ * @description
+ * Asks until the answer is yes or no. Same opts as ask, with a boolean default.
+ * 
+*/
+@rpsAction({verbName:'confirm'})
+async confirm (ctx:RpsContext,opts:PromptOpts, question:string) : Promise<boolean>{
+  opts = opts || {};
+  let hint = opts.default === undefined ? 'y/n' : (opts.default ? 'Y/n' : 'y/N');
+
+  return prompt(ctx, label(question, hint), R.assoc('default', opts.default === undefined ? undefined : !!opts.default, opts), toBoolean);
+}
+
+/**
+ * @function choose
+ * @memberof Basic
+ * @example
+ * choose 'Which environment?' ['dev','uat','prod'] | as 'env'
+ * 
+ * @param {string} question Question printed before the numbered choices.
+ * @param {List} choices Choices to pick from.
+ * @returns {*} The chosen item.
+ * @summary choose :: String → [a] → a
+ * @description
+ * Prints the choices numbered from 1, the answer is either the number or the exact text of a choice.
+ * Same opts as ask, the default being one of the choices.
+ * 
+*/
+@rpsAction({verbName:'choose'})
+async choose (ctx:RpsContext,opts:PromptOpts, question:string, choices:any[]) : Promise<any>{
+  opts = opts || {};
+  if(!Array.isArray(choices) || choices.length === 0) throw new Error('choose expects a non empty list of choices');
+
+  if(isInteractive(ctx)) {
+    let list = choices.map((choice, i) => `  ${i+1}) ${toOutput(choice)}\n`).join('');
+    basicContext(ctx).output.write(list);
   }
+
+  return prompt(ctx, label(question, opts.default), opts, answer => toChoice(choices, answer));
+}
+
+/**
+ * @function progress
+ * @memberof Basic
+ * @example
+ * progress --label='Invoices' (length $invoices) | as 'bar'
+ * for-each (tap (()=>progress-tick $bar)) $invoices
+ * progress-done $bar
+ * 
+ * @param {number} total Number of steps.
+ * @returns {ProgressBar} The progress bar, to be passed to progress-tick and progress-done.
+ * @summary progress :: Number → ProgressBar
+ * @description
+ * Shows a progress bar with percentage, count, rate and estimated time left, on stdout.
+ * Opts are label, width of the bar and interval, the minimum time between two updates, in seconds
+ * or as a text like '500ms'.
+ * When stdout is not a terminal, a plain line is printed per interval instead (every second by default).
+ * 
+*/
+@rpsAction({verbName:'progress'})
+async progress (ctx:RpsContext,opts:ProgressOpts, total:number) : Promise<ProgressBar>{
+  return new ProgressBar(basicContext(ctx).output, total, opts || {});
+}
+
+/**
+ * @function progress-tick
+ * @memberof Basic
+ * @example
+ * progress-tick $bar
+ * ;advance by 10 steps
+ * progress-tick $bar 10
+ * 
+ * @param {ProgressBar} bar Bar created with progress.
+ * @param {number} count Optional number of steps done, defaults to 1.
+ * @returns {ProgressBar} The progress bar.
+ * @summary progress-tick :: ProgressBar → ProgressBar
+ * @description
+ * The bar is done once all steps are ticked.
+ * 
+*/
+@rpsAction({verbName:'progress-tick'})
+async progressTick (ctx:RpsContext,opts:{}, bar:ProgressBar, count?:number) : Promise<ProgressBar>{
+  return bar.tick(count === undefined ? 1 : count);
+}
+
+/**
+ * @function progress-done
+ * @memberof Basic
+ * @example
+ * progress-done $bar
+ * progress-done $spinner 'Uploaded'
+ * 
+ * @param {ProgressBar|Spinner} progress Bar created with progress, or spinner created with spinner.
+ * @param {string} message Optional message replacing the spinner.
+ * @returns {ProgressBar|Spinner} The progress bar or spinner.
+ * @summary progress-done :: ProgressBar → ProgressBar
+ * 
+*/
+@rpsAction({verbName:'progress-done'})
+async progressDone (ctx:RpsContext,opts:{}, progress:ProgressBar|Spinner, message?:string) : Promise<ProgressBar|Spinner>{
+  return progress instanceof Spinner ? progress.done(message) : progress.done();
+}
+
+/**
+ * @function spinner
+ * @memberof Basic
+ * @example
+ * spinner 'Waiting for report' | as 'spinner'
+ * progress-done $spinner
+ * 
+ * @param {string} label Text shown next to the spinner.
+ * @returns {Spinner} The spinner, to be stopped with progress-done.
+ * @summary spinner :: String → Spinner
+ * @description
+ * Animates on stdout until progress-done. When stdout is not a terminal, the label is printed
+ * once when started and once when done.
+ * 
+*/
+@rpsAction({verbName:'spinner'})
+async spinner (ctx:RpsContext,opts:{}, label:string) : Promise<Spinner>{
+  return new Spinner(basicContext(ctx).output, label);
+}
+
+/**
+ * @function with-progress
+ * @memberof Basic
+ * @example
+ * with-progress (map) (prop 'id') $invoices
+ * with-progress --label='Uploading' (for-each) $upload $files
+ * 
+ * @param {Function} listFn List function taking a function and a list, such as map or for-each.
+ * @param {Function} fn Function applied to each item.
+ * @param {List} list The items.
+ * @returns {*} Result of listFn.
+ * @summary with-progress :: ((a → b) → [a] → c) → (a → b) → [a] → c
+ * @description
+ * Calls listFn with fn and list, showing a progress bar ticked every time fn returns.
+ * When fn returns a promise, the tick happens once it settles. Takes the same opts as progress.
+ * 
+*/
+@rpsAction({verbName:'with-progress'})
+async withProgress (ctx:RpsContext,opts:ProgressOpts, ...params:any[]) : Promise<any>{
+  let output = basicContext(ctx).output;
+
+  let run = R.curry(function (listFn, fn, list) {
+    let bar = new ProgressBar(output, R.length(list), opts || {});
+    let tick = function (result) { bar.tick(); return result; };
+
+    let tracked = function (...args) {
+      let result = fn(...args);
+      return result && typeof result.then === 'function' ? result.then(tick) : tick(result);
+    };
+
+    // items mapped to promises are only done once all of them settle
+    return Promise.resolve(listFn(tracked, list)).then(result => {
+      let pending = Array.isArray(result) ? result.map(item => Promise.resolve(item).catch(R.identity)) : [];
+      return Promise.all(pending).then(() => { bar.done(); return result; });
+    });
+  });
+
+  return R.apply(run, params);
 }
 
   /**
@@ -82,34 +419,36 @@ async stdout(ctx:RpsContext,opts:{}, text?:any) : Promise<any>{
  * read 'filename.txt' | as 'varName'
  * ;this will print out the content of 'filename.txt'
  * console-log $varName
+ *
+ * ;bind $head to 1 and $rest to [2,3]
+ * as '[head, ...rest]' [1,2,3]
+ * ;bind $name, $city and $port
+ * as '{name, address: {city}, port = 8080}' $customer
  * 
- * @param {string} variable Variable name.
+ * @param {string} variable Variable name, or destructuring pattern.
  * @param {*} value  Value to be assigned to the variable.
  * @returns {*}  Value of the variable.
  * @summary as :: String → a → a
  * @description
  * This is equivalent to variable assignment in programming language.
  * The assigned variable can be access by prefixing $ on the variable name.
+ * Inside scope or with-vars, the variable is bound in that scope only.
+ * A pattern of list brackets or object braces binds every name it contains, with rest
+ * elements, nested patterns and literal defaults as in javascript destructuring.
+ * An error is raised if the value is not a list, or an object, where the pattern expects one.
  * 
  * 
 */
   @rpsAction({verbName:'as'})
   as (ctx:RpsContext,opts:{}, variable:string, value:any) : Promise<any>{
-    variable = variable.trim();
-    ctx.variables[variable] = value;
-
-    if(variable.charAt(0)!=='$') variable = '$'+variable;
-
-    ctx.variables[variable] = value;
-
-    return Promise.resolve(value);
+    return Promise.resolve(assignVar(ctx, variable, value));
   }
 
 /**
  * @function assign
  * @memberof Basic
  * 
- * @param {string} variable Variable name.
+ * @param {string} variable Variable name, or destructuring pattern as for as.
  * @param {*} value  Value to be assigned to the variable.
  * @returns {*}  Value of the variable.
  * @summary assign :: String → a → a
@@ -118,14 +457,341 @@ async stdout(ctx:RpsContext,opts:{}, text?:any) : Promise<any>{
 */  
   @rpsAction({verbName:'assign'})
   assign (ctx:RpsContext,opts:{}, variable:string, value:any) : Promise<any>{
-    variable = variable.trim();
-    ctx.variables[variable] = value;
+    return Promise.resolve(assignVar(ctx, variable, value));
+  }
+
+/**
+ * @function const
+ * @memberof Basic
+ * @example
+ * const 'baseUrl' 'https://example.com'
+ * ;raises an error naming the original definition
+ * as 'baseUrl' 'http://localhost'
+ * ;the object cannot be changed either
+ * const --freeze 'config' {'retries':3}
+ * 
+ * @param {string} variable Variable name.
+ * @param {*} value  Value to be assigned to the variable.
+ * @returns {*}  Value of the variable.
+ * @summary const :: String → a → a
+ * @description
+ * Same as as, but the variable is read-only: as, assign, const and unset raise an error
+ * naming the variable and its definition. Inside scope or with-vars, the constant is
+ * read-only in that scope and the ones within it.
+ * With the freeze opt, objects and lists are deep frozen.
+ * 
+*/
+  @rpsAction({verbName:'const'})
+  async constant (ctx:RpsContext,opts:ConstOpts, variable:string, value:any) : Promise<any>{
+    return setConst(ctx, variable, value, opts || {});
+  }
+
+/**
+ * @function scope
+ * @memberof Basic
+ * @example
+ * scope (() => as 'tmp' 1)
+ * ;$tmp is not bound anymore
+ * has-var 'tmp'
+ * 
+ * @param {Function} fn Function run in the new scope.
+ * @returns {*} Result of fn.
+ * @summary scope :: (() → a) → a
+ * @description
+ * Runs fn with a child frame of variables. Variables of the enclosing frames can be read,
+ * but the ones assigned by fn are discarded once it returns, leaving the enclosing frames untouched.
+ * Scopes apply to the whole context, so avoid running other script parts concurrently with fn.
+ * 
+*/
+@rpsAction({verbName:'scope'})
+async scope (ctx:RpsContext,opts:{}, fn:() => any) : Promise<any>{
+  return withFrame(ctx, {}, fn);
+}
+
+/**
+ * @function with-vars
+ * @memberof Basic
+ * @example
+ * with-vars {'name':'John'} (() => log $name)
+ * 
+ * @param {Object} vars Variables bound in the new scope, by name.
+ * @param {Function} fn Function run in the new scope.
+ * @returns {*} Result of fn.
+ * @summary with-vars :: {k: v} → (() → a) → a
+ * @description
+ * Same as scope, with the child frame initialised with vars.
+ * 
+*/
+@rpsAction({verbName:'with-vars'})
+async withVars (ctx:RpsContext,opts:{}, vars:Object, fn:() => any) : Promise<any>{
+  return withFrame(ctx, vars, fn);
+}
+
+/**
+ * @function unset
+ * @memberof Basic
+ * @example
+ * unset 'varName'
+ * 
+ * @param {string} variable Variable name.
+ * @returns {boolean} True if the variable was bound.
+ * @summary unset :: String → Boolean
+ * @description
+ * Removes the variable from the innermost scope binding it. Constants cannot be unset.
+ * 
+*/
+@rpsAction({verbName:'unset'})
+async unset (ctx:RpsContext,opts:{}, variable:string) : Promise<boolean>{
+  return unsetVar(ctx, variable);
+}
+
+/**
+ * @function has-var
+ * @memberof Basic
+ * @example
+ * has-var 'varName'
+ * 
+ * @param {string} variable Variable name.
+ * @returns {boolean} True if the variable is bound.
+ * @summary has-var :: String → Boolean
+ * 
+*/
+@rpsAction({verbName:'has-var'})
+async hasVar (ctx:RpsContext,opts:{}, variable:string) : Promise<boolean>{
+  return hasVar(ctx, variable);
+}
+
+/**
+ * @function get-var
+ * @memberof Basic
+ * @example
+ * get-var 'retries' 3
+ * 
+ * @param {string} variable Variable name.
+ * @param {*} defaultValue Returned when the variable is not bound.
+ * @returns {*} Value of the variable.
+ * @summary get-var :: String → a → a
+ * 
+*/
+@rpsAction({verbName:'get-var'})
+async getVar (ctx:RpsContext,opts:{}, variable:string, defaultValue?:any) : Promise<any>{
+  return hasVar(ctx, variable) ? ctx.variables[toVarName(variable)] : defaultValue;
+}
+
+/**
+ * @function vars
+ * @memberof Basic
+ * @example
+ * log --inspect vars
+ * 
+ * @returns {Object} Value of every bound variable, by name.
+ * @summary vars :: {k: v}
+ * @description
+ * Lists the variables of the current scope and the enclosing ones, names are without the $ prefix.
+ * 
+*/
+@rpsAction({verbName:'vars'})
+async vars (ctx:RpsContext,opts:{}) : Promise<Object>{
+  return listVars(ctx);
+}
+
+/**
+ * @function persist
+ * @memberof Basic
+ * @example
+ * persist 'lastInvoiceId' $id
+ * ;keep for a day, in the namespace of this script
+ * persist --namespace='invoices' --ttl=86400 'session' $session
+ * 
+ * @param {string} key Name of the value.
+ * @param {*} value Value to persist.
+ * @returns {*} The value.
+ * @summary persist :: String → a → a
+ * @description
+ * Saves value to a JSON file so that it can be restored by later runs of the script.
+ * Opts are path of the file, namespace of the key and ttl, seconds after which the value expires.
+ * The path and namespace default to the storePath and storeNamespace of the context's basic module,
+ * ~/.rpscript/basic-store.json and the path of the running script, so that scripts do not overwrite
+ * each other's keys. Dates, Maps and Sets are restored as such.
+ * The file is written atomically.
+ * 
+*/
+@rpsAction({verbName:'persist'})
+async persist (ctx:RpsContext,opts:StoreOpts, key:string, value:any) : Promise<any>{
+  opts = opts || {};
+  return this.store(ctx, opts).set(this.storeNamespace(ctx, opts), key, value, opts.ttl);
+}
+
+/**
+ * @function restore
+ * @memberof Basic
+ * @example
+ * restore 'lastInvoiceId' 0 | as 'lastId'
+ * 
+ * @param {string} key Name of the value.
+ * @param {*} defaultValue Returned if the key was never persisted, forgotten or expired.
+ * @returns {*} The persisted value.
+ * @summary restore :: String → a → a
+ * @description
+ * Reads back a value saved by persist, with the same path and namespace opts.
+ * 
+*/
+@rpsAction({verbName:'restore'})
+async restore (ctx:RpsContext,opts:StoreOpts, key:string, defaultValue?:any) : Promise<any>{
+  opts = opts || {};
+  return this.store(ctx, opts).get(this.storeNamespace(ctx, opts), key, defaultValue);
+}
+
+/**
+ * @function forget
+ * @memberof Basic
+ * @example
+ * forget 'session'
+ * 
+ * @param {string} key Name of the value.
+ * @returns {boolean} True if the key was persisted.
+ * @summary forget :: String → Boolean
+ * @description
+ * Removes a value saved by persist, with the same path and namespace opts.
+ * 
+*/
+@rpsAction({verbName:'forget'})
+async forget (ctx:RpsContext,opts:StoreOpts, key:string) : Promise<boolean>{
+  opts = opts || {};
+  return this.store(ctx, opts).delete(this.storeNamespace(ctx, opts), key);
+}
+
+private store (ctx:RpsContext, opts:StoreOpts) : JsonStore {
+  return new JsonStore(opts.path || basicContext(ctx).storePath);
+}
+
+private storeNamespace (ctx:RpsContext, opts:StoreOpts) : string {
+  return opts.namespace || basicContext(ctx).storeNamespace;
+}
+
+/**
+ * @function env
+ * @memberof Basic
+ * @example
+ * env 'HOME'
+ * env 'LOG_LEVEL' 'info'
+ * 
+ * @param {string} name Name of the environment variable.
+ * @param {string} defaultValue Returned if the variable is not set.
+ * @returns {string} Value of the environment variable.
+ * @summary env :: String → String → String
+ * 
+ * @see {@link https://nodejs.org/api/process.html#process_process_env}
+ * 
+*/
+@rpsAction({verbName:'env'})
+async env (ctx:RpsContext,opts:{}, name:string, defaultValue?:any) : Promise<any>{
+  let value = process.env[name];
+  return value === undefined ? defaultValue : value;
+}
+
+/**
+ * @function env-required
+ * @memberof Basic
+ * @example
+ * env-required 'API_URL' 'API_KEY' | as '{API_URL, API_KEY}'
+ * 
+ * @param {List} names Names of the environment variables.
+ * @returns {Object} Value of each environment variable, by name.
+ * @summary env-required :: ...String → {k: v}
+ * @description
+ * Raises an error listing every variable that is not set or empty.
+ * 
+*/
+@rpsAction({verbName:'env-required'})
+async envRequired (ctx:RpsContext,opts:{}, ...names:string[]) : Promise<Object>{
+  names = R.flatten(names);
+  let missing = missingEnv(names);
+  if(missing.length > 0)
+    throw new Error(`Missing required environment variable${missing.length > 1 ? 's' : ''}: ${missing.join(', ')}`);
+
+  return R.pick(names, process.env);
+}
+
+/**
+ * @function env-as
+ * @memberof Basic
+ * @example
+ * env-as 'number' 'PORT' 8080
+ * env-as 'boolean' 'DRY_RUN' false
+ * env-as --separator=';' 'list' 'RECIPIENTS'
+ * 
+ * @param {string} type One of string, number, boolean, json or list.
+ * @param {string} name Name of the environment variable.
+ * @param {*} defaultValue Returned as is if the variable is not set.
+ * @returns {*} Converted value of the environment variable.
+ * @summary env-as :: String → String → a → a
+ * @description
+ * Booleans accept true, false, 1, 0, yes, no, on and off. Lists are split on the separator opt, ',' by default.
+ * Raises an error if the value cannot be converted.
+ * 
+*/
+@rpsAction({verbName:'env-as'})
+async envAs (ctx:RpsContext,opts:EnvAsOpts, type:EnvType, name:string, defaultValue?:any) : Promise<any>{
+  let value = process.env[name];
+  return value === undefined ? defaultValue : coerce(name, value, type, opts || {});
+}
+
+/**
+ * @function load-env
+ * @memberof Basic
+ * @example
+ * load-env
+ * load-env --bind 'config/.env.production'
+ * 
+ * @param {string} path Path of the file, defaults to .env.
+ * @returns {Object} Entries of the file.
+ * @summary load-env :: String → {k: v}
+ * @description
+ * Sets the entries of a .env file in process.env, leaving variables that are already set
+ * unless the override opt is given. With the bind opt, every entry is also assigned as
+ * a script variable, the same way as does.
+ * 
+*/
+@rpsAction({verbName:'load-env'})
+async loadEnv (ctx:RpsContext,opts:LoadEnvOpts, path?:string) : Promise<Object>{
+  opts = opts || {};
+  let entries = readEnvFile(path || '.env');
+
+  R.forEachObjIndexed((value, name) => {
+    if(opts.override || process.env[name] === undefined) process.env[name] = value;
+    if(opts.bind) assignVar(ctx, name, value);
+  }, entries);
 
-    if(variable.charAt(0)!=='$') variable = '$'+variable;
+  return entries;
+}
 
-    ctx.variables[variable] = value;
+/**
+ * @function watch-var
+ * @memberof Basic
+ * @example
+ * watch-var 'count' (($change) => log (nth 2 $change))
+ * ;same as
+ * listen-on 'change' (($change) => log (nth 2 $change)) (watch-var 'count')
+ * ;wait for the next assignment
+ * listen-once 'change' (watch-var 'status')
+ * 
+ * @param {string} variable Variable name.
+ * @param {Function} callback Optional function called with [name, oldValue, newValue] on every change.
+ * @returns {EventEmitter} Emitter of 'change' events for the variable.
+ * @summary watch-var :: String → (* → *) → EventEmitter
+ * @description
+ * Variable changes made by as, assign, const and unset are emitted on the event emitter of the context
+ * as 'variable.change' events, with the $ name, the old value and the new value.
+ * watch-var narrows them down to one variable. Call close on the emitter to stop watching.
+ * 
+*/
+  @rpsAction({verbName:'watch-var'})
+  async watchVar (ctx:RpsContext,opts:{}, variable:string, cb?:(any)=>void) : Promise<EventEmitter>{
+    let watcher = watchVar(ctx, variable);
+    if(cb) await this.on(ctx, {}, 'change', cb, watcher);
 
-    return Promise.resolve(value);
+    return watcher;
   }
 
   /**
@@ -133,20 +799,143 @@ async stdout(ctx:RpsContext,opts:{}, text?:any) : Promise<any>{
  * @memberof Basic
  * @example
  * listen-once 'connected' $emitter
- * 
- * @param {EventEmitter} event The object to listen to.
+ * ;give up after 30 seconds
+ * listen-once --timeout=30 'connected' $emitter
+ * ;first response with status 200
+ * listen-once --filter=(prop-eq 'status' 200) 'response' $emitter
+ * ;next message published on an order topic of the bus
+ * listen-once 'order.*'
+ * 
+ * @param {EventEmitter} event The object to listen to, or a topic pattern of the bus of the context.
  * @param {string} eventName Name to listen for event.
  * @returns {*}  If condition is met, result of exec. else null.
  * @summary listen-once :: EventEmitter → String → a
+ * @description
+ * Resolves with the list of parameters of the next event.
+ * Rejects when the emitter emits 'error', unless the rejectOnError opt is false.
+ * The timeout opt, in seconds or as a text like '30s', rejects with a TimeoutError.
+ * The signal opt, a handle created by cancel-handle or an AbortSignal, rejects with an AbortError once cancelled.
+ * The filter opt skips events until one whose parameters satisfy the predicate.
+ * 
+ * Given a topic pattern instead of an emitter, it awaits the next message published on a matching
+ * topic, resolving with [payload, topic], or right away with a retained message unless the
+ * retained opt is false. See publish.
  * 
  * @see {@link https://nodejs.org/api/events.html#events_emitter_once_eventname_listener}
  * 
 */
   @rpsAction({verbName:'listen-once'})
-  listenOnce (ctx:RpsContext,opts:{}, event:EventEmitter, evtName:string) : Promise<any>{
-    return new Promise(function(resolve) {
-      event.once(evtName, (...params) => resolve(params));
+  listenOnce (ctx:RpsContext,opts:NextMessageOpts, event:EventEmitter|string, evtName?:string) : Promise<any>{
+    if(typeof event === 'string') return basicContext(ctx).bus.next(event, opts || {});
+
+    return once(event, evtName, opts || {});
+  }
+
+/**
+ * @function cancel-handle
+ * @memberof Basic
+ * @example
+ * cancel-handle | as 'handle'
+ * listen-once --signal=$handle 'connected' $emitter
+ * cancel $handle
+ * 
+ * @returns {CancelHandle} A new handle.
+ * @summary cancel-handle :: CancelHandle
+ * @description
+ * Creates a handle to pass as the signal opt of verbs that wait, so that they can be cancelled.
+ * It has the same interface as an AbortSignal, plus cancel and abort methods.
+ * 
+*/
+  @rpsAction({verbName:'cancel-handle'})
+  async cancelHandle (ctx:RpsContext,opts:{}) : Promise<CancelHandle>{
+    return new CancelHandle;
+  }
+
+/**
+ * @function cancel
+ * @memberof Basic
+ * @example
+ * cancel $handle 'no longer needed'
+ * 
+ * @param {CancelHandle} handle Handle created by cancel-handle.
+ * @param {*} reason Optional reason of the cancellation.
+ * @returns {CancelHandle} The handle.
+ * @summary cancel :: CancelHandle → CancelHandle
+ * 
+*/
+  @rpsAction({verbName:'cancel'})
+  async cancel (ctx:RpsContext,opts:{}, handle:CancelHandle, reason?:any) : Promise<CancelHandle>{
+    return handle.cancel(reason);
+  }
+
+/**
+ * @function emitter
+ * @memberof Basic
+ * @example
+ * emitter | as 'rows'
+ * 
+ * @returns {EventEmitter} A new event emitter.
+ * @summary emitter :: EventEmitter
+ * 
+ * @see {@link https://nodejs.org/api/events.html#events_class_eventemitter}
+ * 
+*/
+  @rpsAction({verbName:'emitter'})
+  async emitter (ctx:RpsContext,opts:{}) : Promise<EventEmitter>{
+    return new EventEmitter;
+  }
+
+/**
+ * @function emit
+ * @memberof Basic
+ * @example
+ * emit 'row' $rows {'id':1}
+ * for-each (emit 'row' $rows) $records
+ * ;emit several parameters
+ * emit --spread 'progress' $emitter [5, 10]
+ * 
+ * @param {string} eventName Name of the event.
+ * @param {EventEmitter} event The emitter.
+ * @param {*} payload Parameter of the event.
+ * @returns {*} The payload, so that emit can be used inside pipe or tap.
+ * @summary emit :: String → EventEmitter → a → a
+ * @description
+ * With the spread opt, a list payload is emitted as separate parameters.
+ * 
+ * @see {@link https://nodejs.org/api/events.html#events_emitter_emit_eventname_args}
+ * 
+*/
+  @rpsAction({verbName:'emit'})
+  async emit (ctx:RpsContext,opts:{spread?:boolean}, ...params:any[]) : Promise<any>{
+    let spread = opts && opts.spread;
+
+    let emit = R.curry(function (evtName:string, event:EventEmitter, payload:any) {
+      if(spread && Array.isArray(payload)) event.emit(evtName, ...payload);
+      else event.emit(evtName, payload);
+
+      return payload;
     });
+
+    return R.apply(emit, params);
+  }
+
+/**
+ * @function listener-count
+ * @memberof Basic
+ * @example
+ * listener-count 'row' $rows
+ * 
+ * @param {string} eventName Name of the event.
+ * @param {EventEmitter} event The emitter.
+ * @returns {number} Number of listeners of the event.
+ * @summary listener-count :: String → EventEmitter → Number
+ * 
+ * @see {@link https://nodejs.org/api/events.html#events_emitter_listenercount_eventname}
+ * 
+*/
+  @rpsAction({verbName:'listener-count'})
+  async listenerCount (ctx:RpsContext,opts:{}, ...params:any[]) : Promise<number|Function>{
+    return R.apply(R.curry((evtName:string, event:EventEmitter) => event.listenerCount(evtName)), params);
   }
 
 /**
@@ -154,19 +943,230 @@ async stdout(ctx:RpsContext,opts:{}, text?:any) : Promise<any>{
  * @memberof Basic
  * @example
  * listen-on 'start' (($output)=>log $output) $emitter
+ * ;stop listening after 3 events
+ * listen-on --times=3 'start' (($output)=>log $output) $emitter
+ * ;register the subscription, to remove it later with listen-off
+ * listen-on --name='logger' 'start' (($output)=>log $output) $emitter
+ * ;once the burst of changes is over, only for changed files
+ * listen-on --debounce=0.5 --distinct --filter=(test /\.csv$/) 'change' $reload $watcher
  * 
- * @param {EventEmitter} event The object to listen to.
  * @param {string} eventName Name to listen for event.
- * @returns {*}  If condition is met, result of exec. else null.
+ * @param {Function} callback Called with the list of parameters of each event.
+ * @param {EventEmitter} event The object to listen to.
+ * @returns {EventEmitter} The emitter, or the subscription with the handle opt.
  * @summary listen-on :: String → (...* → *) → EventEmitter → EventEmitter
+ * @description
+ * The name opt registers the subscription under that name for listen-off, replacing any
+ * subscription registered under the same name. The handle opt returns the subscription
+ * instead of the emitter; call unsubscribe on it, or pass it to listen-off, to stop listening.
+ * The times opt stops listening after that many events.
  * 
- * @see {@link https://nodejs.org/api/events.html#events_emitter_once_eventname_listener}
+ * Events can be narrowed down, in this order, with the opts:
+ * filter, a predicate on the parameters of the event;
+ * distinct, skipping events with the same parameters as the previous one, as compared by equals;
+ * throttle, handling the first event and ignoring the others for that many seconds;
+ * debounce, waiting until events stop coming for that many seconds, then handling the last one
+ * (trailing, true by default) and/or the first one as soon as it comes (leading, false by default).
+ * The filter may be async, the event is then held back until it resolves.
+ * A filter that fails, a debounced callback that throws, or an async callback that rejects, emits
+ * the error as 'error' on the emitter when something listens to it, else prints it to stderr.
+ * 
+ * @see {@link https://nodejs.org/api/events.html#events_emitter_on_eventname_listener}
  * 
 */
   @rpsAction({verbName:'listen-on'})
-  async on (ctx:RpsContext,opts:{}, evtName:string, cb:(any)=>void, event:EventEmitter) : Promise<EventEmitter>{
-    event.on(evtName, (...params) => cb(params));
-    return event;
+  async on (ctx:RpsContext,opts:ListenOnOpts, evtName:string, cb:(any)=>void, event:EventEmitter) : Promise<EventEmitter|Subscription>{
+    opts = opts || {};
+    let subscription = this.register(ctx, opts.name, new Subscription(event, evtName, cb, opts, this.reporter(ctx, evtName)));
+
+    return opts.handle ? subscription : event;
+  }
+
+  private reporter (ctx:RpsContext, evtName:string) : ErrorReporter {
+    return err => basicContext(ctx).output.write(`Listener of '${evtName}' failed: ${err && err.message || err}\n`, 'stderr');
+  }
+
+  private register (ctx:RpsContext, name:string, subscription:Subscription) : Subscription {
+    if(name) {
+      let registry = basicContext(ctx).subscriptions;
+      if(registry[name]) registry[name].unsubscribe();
+      registry[name] = subscription;
+    }
+
+    return subscription;
+  }
+
+/**
+ * @function listen-off
+ * @memberof Basic
+ * @example
+ * listen-off $subscription
+ * listen-off 'logger'
+ * ;every listen-on subscription to 'start'
+ * listen-off 'start' $emitter
+ * 
+ * @param {Subscription|string} subscription Subscription returned by listen-on, name it was registered
+ * under, or name of the event when emitter is given.
+ * @param {EventEmitter} event Optional emitter, to remove all its subscriptions to an event.
+ * @returns {number} Number of subscriptions removed.
+ * @summary listen-off :: Subscription → Number
+ * @description
+ * Only removes subscriptions made by listen-on, other listeners of the emitter are kept.
+ * 
+*/
+  @rpsAction({verbName:'listen-off'})
+  async off (ctx:RpsContext,opts:{}, subscription:Subscription|string, event?:EventEmitter) : Promise<number>{
+    let removed:Subscription[];
+
+    if(subscription instanceof Subscription) removed = [subscription];
+    else if(event) removed = subscriptionsOf(event, subscription);
+    else {
+      let registry = basicContext(ctx).subscriptions;
+      removed = registry[subscription] ? [registry[subscription]] : [];
+      delete registry[subscription];
+    }
+
+    return removed.filter(sub => sub.active).map(sub => sub.unsubscribe()).length;
+  }
+
+/**
+ * @function publish
+ * @memberof Basic
+ * @example
+ * publish 'order.created' {'id':42}
+ * ;keep the last status for scripts subscribing later
+ * publish --retain 'job.status' 'running'
+ * 
+ * @param {string} topic Dot separated name of the channel.
+ * @param {*} payload The message.
+ * @returns {*} The payload, so that publish can be used inside pipe or tap.
+ * @summary publish :: String → a → a
+ * @description
+ * Sends payload to the subscribers of topic on the bus of the context, which every part of the
+ * script, and every module loaded in the same context, shares. Unlike emit, no emitter has to be passed around.
+ * The retain opt keeps the message as the last one of the topic: subscribe and listen-once
+ * receive it right away when they come later. Publishing an undefined payload with retain clears it.
+ * 
+*/
+  @rpsAction({verbName:'publish'})
+  async publish (ctx:RpsContext,opts:PublishOpts, ...params:any[]) : Promise<any>{
+    let bus = basicContext(ctx).bus;
+
+    return R.apply(R.curry((topic:string, payload:any) => {
+      bus.publish(topic, payload, opts || {});
+      return payload;
+    }), params);
+  }
+
+/**
+ * @function subscribe
+ * @memberof Basic
+ * @example
+ * subscribe 'order.created' (([$order])=>log $order)
+ * ;every order topic: order.created, order.paid...
+ * subscribe 'order.*' (([$order, $topic])=>log $topic)
+ * ;any number of levels: order.created, order.line.added...
+ * subscribe --name='audit' 'order.**' $audit
+ * 
+ * @param {string} pattern Topic, where * matches one level and ** any number of levels.
+ * @param {Function} callback Called with [payload, topic] for each message.
+ * @returns {Subscription} The subscription, to pass to listen-off.
+ * @summary subscribe :: String → ([a, String] → *) → Subscription
+ * @description
+ * Listens to the messages published on the bus of the context on topics matching pattern.
+ * Retained messages of matching topics are received right away, unless the retained opt is false.
+ * Takes the same opts as listen-on: name, times, filter (called with payload and topic),
+ * distinct, throttle and debounce.
+ * 
+*/
+  @rpsAction({verbName:'subscribe'})
+  async subscribe (ctx:RpsContext,opts:SubscribeOpts, pattern:string, cb:(any)=>void) : Promise<Subscription>{
+    opts = opts || {};
+
+    return this.register(ctx, opts.name, basicContext(ctx).bus.subscribe(pattern, cb, opts, this.reporter(ctx, pattern)));
+  }
+
+/**
+ * @function collect-events
+ * @memberof Basic
+ * @example
+ * ;the next 10 rows
+ * collect-events --count=10 'row' $emitter | map (prop 'id')
+ * ;everything emitted in the next 5 seconds
+ * collect-events --timeout=5 'row' $emitter
+ * collect-events --timeout='2m' 'row' $emitter
+ * ;rows until the 'end' event
+ * collect-events --until='end' 'row' $emitter
+ * 
+ * @param {string} eventName Name of the event to collect.
+ * @param {EventEmitter} event The emitter.
+ * @returns {List} The payloads, in order.
+ * @summary collect-events :: String → EventEmitter → [a]
+ * @description
+ * Buffers the payload of each event, its only parameter or the list of its parameters,
+ * until the first stop condition given as opt is reached: count payloads collected,
+ * timeout elapsed (in seconds, or as a text like '2m'), the until event emitted, or a payload
+ * satisfying the stopWhen predicate.
+ * Rejects when the emitter emits 'error', or when the signal opt is cancelled.
+ * 
+*/
+  @rpsAction({verbName:'collect-events'})
+  collectEvents (ctx:RpsContext,opts:CollectOpts, evtName:string, event:EventEmitter) : Promise<any[]>{
+    return collect(event, evtName, opts || {});
+  }
+
+/**
+ * @function event-queue
+ * @memberof Basic
+ * @example
+ * event-queue --until='end' 'row' $emitter | as 'rows'
+ * 
+ * @param {string} eventName Name of the event.
+ * @param {EventEmitter} event The emitter.
+ * @returns {EventQueue} Async iterator over the list of parameters of each event.
+ * @summary event-queue :: String → EventEmitter → EventQueue
+ * @description
+ * Buffers events until they are consumed, from for-each-event or with for await in javascript.
+ * The maxQueue opt bounds the buffer (100 by default), the overflow opt decides what happens
+ * to an event arriving when it is full: drop-oldest, drop-newest or error (default).
+ * The iteration ends on the until event or when close is called on the queue, and fails
+ * when the emitter emits 'error' or the signal opt is cancelled.
+ * 
+*/
+  @rpsAction({verbName:'event-queue'})
+  async eventQueue (ctx:RpsContext,opts:EventQueueOpts, evtName:string, event:EventEmitter) : Promise<EventQueue>{
+    return new EventQueue(event, evtName, opts || {});
+  }
+
+/**
+ * @function for-each-event
+ * @memberof Basic
+ * @example
+ * for-each-event --until='end' $saveRow 'row' $emitter
+ * ;keep going when a row fails, dropping old rows when 100 are waiting
+ * for-each-event --onError='continue' --overflow='drop-oldest' $saveRow 'row' $emitter
+ * ;consume a queue made by event-queue
+ * for-each-event $saveRow $rows
+ * 
+ * @param {Function} callback Called with the list of parameters of each event.
+ * @param {string} eventName Name of the event.
+ * @param {EventEmitter} event The emitter.
+ * @returns {number} Number of events handled successfully.
+ * @summary for-each-event :: (...* → *) → String → EventEmitter → Number
+ * @description
+ * Unlike listen-on, events are handled one at a time: when callback returns a promise,
+ * the next event waits until it settles. Events arriving meanwhile are queued with the
+ * same opts as event-queue. The onError opt decides what happens when callback fails:
+ * stop (default) rejects with the error, continue goes on with the next event.
+ * Resolves once the queue ends.
+ * 
+*/
+  @rpsAction({verbName:'for-each-event'})
+  async forEachEvent (ctx:RpsContext,opts:ForEachEventOpts, cb:(any)=>any, evtName:string|EventQueue, event?:EventEmitter) : Promise<number>{
+    opts = opts || {};
+    let queue = evtName instanceof EventQueue ? evtName : new EventQueue(event, evtName, opts);
+
+    return forEachEvent(queue, cb, opts.onError);
   }
 
 /***
@@ -174,14 +1174,50 @@ async stdout(ctx:RpsContext,opts:{}, text?:any) : Promise<any>{
  * @memberof Basic
  * @example
  * exit
+ * exit 2
+ * exit --reason='Login page did not load' 1
  * 
- * @param {number} code Optional exit code
+ * @param {number} code Optional exit code, 0 by default.
+ * @description
+ * Before the process ends, the cleanups registered with on-exit, on any context, are run and the output is flushed.
+ * A code that is not an integer is rejected before anything runs.
+ * The reason opt is printed first, to stderr when the code is not 0.
  * 
 */
 @rpsAction({verbName:'exit'})
-async exit (ctx:RpsContext,opts:{}, code:number) : Promise<void>{
-  if(code) process.exit();
-  else process.exit(code);
+async exit (ctx:RpsContext,opts:ExitOpts, code?:number) : Promise<void>{
+  let exitCode = code === undefined || code === null ? 0 : Number(code);
+  if(!Number.isInteger(exitCode)) throw new Error(`Invalid exit code '${code}', expected an integer`);
+
+  let reason = opts && opts.reason;
+  if(reason) basicContext(ctx).output.write(reason+'\n', exitCode ? 'stderr' : 'stdout');
+  await shutdownAll(ctx);
+
+  process.exit(exitCode);
+}
+
+/**
+ * @function on-exit
+ * @memberof Basic
+ * @example
+ * on-exit (()=>close-browser $browser)
+ * ;give the upload up to a minute
+ * on-exit --timeout='1m' $uploadReport
+ * 
+ * @param {Function} callback Cleanup, possibly returning a promise.
+ * @returns {Function} The callback.
+ * @summary on-exit :: (() → *) → (() → *)
+ * @description
+ * Registers a cleanup run before the process ends: by exit, once the script has nothing left to do,
+ * or when it is interrupted by SIGINT or SIGTERM. Every cleanup runs at most once. Cleanups run one at a time,
+ * the last registered first, each awaited for up to the timeout opt, 10 seconds by default.
+ * A cleanup failing or timing out is reported on stderr and the next one runs anyway.
+ * 
+*/
+@rpsAction({verbName:'on-exit'})
+async onExit (ctx:RpsContext,opts:OnExitOpts, cb:() => any) : Promise<() => any>{
+  onExit(ctx, cb, opts || {});
+  return cb;
 }
 
   /***
@@ -190,26 +1226,55 @@ async exit (ctx:RpsContext,opts:{}, code:number) : Promise<void>{
  * @example
  * ;wait for 5 second
  * wait 5
- * 
- * @param {number} period Period to wait for in second.
+ * wait '500ms'
+ * wait '1h30m'
+ * ;pass the result through after 2 minutes
+ * wait '2m' $result
+ * ;stop waiting early with cancel $handle
+ * wait --signal=$handle '10m'
+ * 
+ * @param {number|string} period Period to wait for, in seconds or as a text like '500ms', '2m' or '1h30m'.
  * @param {*} output returned output after period second.
  * @returns {*} Previous result.
- * @summary wait :: Number → a → a
+ * @summary wait :: Number|String → a → a
+ * @description
+ * Waits without blocking: listeners, timers and I/O keep running meanwhile.
+ * The signal opt, a handle created by cancel-handle or an AbortSignal, rejects with an AbortError once cancelled.
  * 
 */
   @rpsAction({verbName:'wait'})
-  async wait (ctx:RpsContext,opts:{}, ...params:any[]) : Promise<any>{
-    // response = response ? response : ctx.$RESULT;
-    // period:number, response?:any
-
-    let sleep = R.curry(function(period, res) {
-      let time = period * 1000;
-      Atomics.wait(new Int32Array(new SharedArrayBuffer(4)), 0, 0, time);
-
-      return res;
+  async wait (ctx:RpsContext,opts:SleepOpts, ...params:any[]) : Promise<any>{
+    let wait = R.curry(function(period, res) {
+      return sleep(period, opts || {}).then(() => res);
     });
 
-    return R.apply(sleep,params);
+    return R.apply(wait,params);
+  }
+
+/**
+ * @function wait-until
+ * @memberof Basic
+ * @example
+ * ;check every second, for up to 5 minutes
+ * wait-until --timeout='5m' (()=>file-exists 'report.csv')
+ * ;check after 1s, 2s, 4s... at most every minute, 10 times
+ * wait-until --interval=1 --backoff=2 --maxInterval='1m' --maxAttempts=10 $jobDone | as 'job'
+ * 
+ * @param {Function} predicate Called, with the attempt number, until it returns a truthy value or a promise of one.
+ * @returns {*} The truthy value returned by predicate.
+ * @summary wait-until :: (Number → a) → a
+ * @description
+ * Polls without blocking, waiting the interval opt between attempts, 1 second by default,
+ * in seconds or as a text like '500ms' or '2m'. The backoff opt multiplies the interval after
+ * every attempt, up to the maxInterval opt.
+ * Rejects with a TimeoutError once the timeout opt has elapsed, even while predicate is still running,
+ * or after maxAttempts attempts, with an AbortError once the signal opt is cancelled, and with the
+ * error of predicate if it fails.
+ * 
+*/
+  @rpsAction({verbName:'wait-until'})
+  waitUntil (ctx:RpsContext,opts:PollOpts, predicate:(attempt:number)=>any) : Promise<any>{
+    return poll(predicate, opts || {});
   }
 
 /**
@@ -225,7 +1290,199 @@ async exit (ctx:RpsContext,opts:{}, code:number) : Promise<void>{
 */
 @rpsAction({verbName:'stringify'})
 async stringify (ctx:RpsContext,opts:{}, obj:any) : Promise<string>{
-  return JSON.stringify(obj);
+  return toJson(obj);
+}
+
+/**
+ * @function interpolate
+ * @memberof Basic
+ * @example
+ * as 'name' 'John'
+ * log interpolate 'Hello $name'
+ * log interpolate 'Order ${order.items[0].sku} costs ${order.total | fixed:2}'
+ * interpolate --missing=throw 'Dear ${title | default:\'customer\'}, the price is \\$5'
+ * 
+ * @param {string} template Text with variable references.
+ * @returns {string} Text with the references replaced.
+ * @summary interpolate :: String → String
+ * @description
+ * Replaces $name and ${path} with the value of script variables, as assigned by as.
+ * Paths may go into objects and lists, like ${order.items[0].sku}. Objects are rendered as JSON.
+ * Filters follow a |, with arguments after a colon separated by commas: upper, lower, trim,
+ * fixed:digits, json, length, join:separator and default:value.
+ * The missing opt decides what happens to unbound variables: leave the reference as is (default),
+ * replace it with an empty string, or throw an error.
+ * A backslash before the $ keeps the reference as literal text.
+ * 
+*/
+@rpsAction({verbName:'interpolate'})
+async interpolate (ctx:RpsContext,opts:InterpolateOpts, template:string) : Promise<string>{
+  return interpolate(template, ctx.variables, opts || {});
+}
+
+/**
+ * @function inspect
+ * @memberof Basic
+ * @example
+ * log inspect $RESULT
+ * inspect --depth=5 --sorted $config
+ * 
+ * @param {*} value Any value.
+ * @returns {string} Readable rendering of value.
+ * @summary inspect :: a → String
+ * @description
+ * Unlike stringify, handles circular references, functions, undefined, Map, Set, Date,
+ * Error, Buffer and EventEmitter. Opts are depth (2 by default, -1 for no limit), maxItems
+ * shown of lists (100), color (on when printing to a terminal), sorted keys and breakLength.
+ * 
+ * @see {@link https://nodejs.org/api/util.html#util_util_inspect_object_options}
+ * 
+*/
+@rpsAction({verbName:'inspect'})
+async inspect (ctx:RpsContext,opts:InspectOpts, value:any) : Promise<string>{
+  opts = opts || {};
+  let color = opts.color !== undefined ? opts.color : shouldStyle(ctx, {});
+
+  return inspect(value, R.assoc('color', color, opts));
+}
+
+/**
+ * @function format
+ * @memberof Basic
+ * @example
+ * log format 'Hello %s, you are %d' ['John', 30]
+ * map (format 'Item %s costs %.2f') [['apple',1.5],['pear',2]]
+ * ;padding and escaping
+ * format '%-10s|%05.1f%%' 'rate' 9.24
+ * 
+ * @param {string} template Text with printf style specifiers.
+ * @param {List} args Values for the specifiers, in order.
+ * @returns {string} Formatted text.
+ * @summary format :: String → [a] → String
+ * @description
+ * Supports %s (string), %d and %i (integer), %f (number, with precision as in %.2f),
+ * %j (JSON, same as stringify), %o (inspected object) and %% for a literal percent sign.
+ * A width pads on the left, or on the right with the - flag. The 0 flag pads numbers
+ * with zeros, + and space prefix positive numbers.
+ * A single non list argument is used as is, more than one argument are taken as the list.
+ * 
+*/
+@rpsAction({verbName:'format'})
+async format (ctx:RpsContext,opts:{}, ...params:any[]) : Promise<string|Function>{
+  let fmt = R.curry(function (template, args) {
+    return format(template, Array.isArray(args) ? args : [args]);
+  });
+
+  if(params.length > 2) return fmt(params[0], R.tail(params));
+  return R.apply(fmt, params);
+}
+
+/**
+ * @function table
+ * @memberof Basic
+ * @example
+ * table $orders | log
+ * ;only id and total, total right aligned
+ * table --border=markdown --columns=['id','total'] --align={'total':'right'} $orders
+ * 
+ * @param {List} rows List of objects, or list of lists.
+ * @returns {string} The rendered table.
+ * @summary table :: [a] → String
+ * @description
+ * Renders rows as an aligned text table. Supported opts are columns (keys to show in order),
+ * headers (titles by key), align (left, right or center, for all or by key), maxWidth (for all or by key,
+ * longer cells are truncated) and border (box, markdown or plain).
+ * List rows are indexed by position and have no header row unless headers is given.
+ * 
+*/
+@rpsAction({verbName:'table'})
+async table (ctx:RpsContext,opts:TableOpts, rows:any[]) : Promise<string>{
+  return renderTable(rows, opts || {});
+}
+
+/**
+ * @function color
+ * @memberof Basic
+ * @example
+ * log color 'red' 'Failed'
+ * map (color 'green') ['a','b']
+ * 
+ * @param {string} color Name of the colour, e.g. red, or bg-red for the background.
+ * @param {string} text Text to colour.
+ * @returns {string} Coloured text.
+ * @summary color :: String → String → String
+ * @description
+ * Wraps text in ANSI colour codes. Text is returned as is when the output sink is
+ * not a terminal or NO_COLOR is set, unless the force opt is given.
+ * 
+*/
+@rpsAction({verbName:'color'})
+async color (ctx:RpsContext,opts:StyleOpts, ...args:any[]) : Promise<string|Function>{
+  return R.apply(R.curry((color, text) => this.styleText(ctx, opts, [color], text)), args);
+}
+/**
+ * @function bold
+ * @memberof Basic
+ * @example
+ * log bold 'Total'
+ * 
+ * @summary bold :: String → String
+ * 
+*/
+@rpsAction({verbName:'bold'})
+async bold (ctx:RpsContext,opts:StyleOpts, ...args:any[]) : Promise<string|Function>{
+  return R.apply(R.curry(text => this.styleText(ctx, opts, ['bold'], text)), args);
+}
+/**
+ * @function dim
+ * @memberof Basic
+ * @example
+ * log dim 'skipped'
+ * 
+ * @summary dim :: String → String
+ * 
+*/
+@rpsAction({verbName:'dim'})
+async dim (ctx:RpsContext,opts:StyleOpts, ...args:any[]) : Promise<string|Function>{
+  return R.apply(R.curry(text => this.styleText(ctx, opts, ['dim'], text)), args);
+}
+/**
+ * @function underline
+ * @memberof Basic
+ * @example
+ * log underline 'Summary'
+ * 
+ * @summary underline :: String → String
+ * 
+*/
+@rpsAction({verbName:'underline'})
+async underline (ctx:RpsContext,opts:StyleOpts, ...args:any[]) : Promise<string|Function>{
+  return R.apply(R.curry(text => this.styleText(ctx, opts, ['underline'], text)), args);
+}
+/**
+ * @function style
+ * @memberof Basic
+ * @example
+ * log style 'bold red' 'Failed'
+ * map (style ['underline','cyan']) $titles
+ * 
+ * @param {string|List} styles Style names separated by space, or a list of them.
+ * @param {string} text Text to style.
+ * @returns {string} Styled text.
+ * @summary style :: String → String → String
+ * @description
+ * Combines several styles: bold, dim, italic, underline, inverse, hidden, strikethrough,
+ * the colours and the bg- colours. Same terminal and NO_COLOR rules as color.
+ * 
+*/
+@rpsAction({verbName:'style'})
+async style (ctx:RpsContext,opts:StyleOpts, ...args:any[]) : Promise<string|Function>{
+  return R.apply(R.curry((styles, text) => this.styleText(ctx, opts, styles, text)), args);
+}
+
+private styleText (ctx:RpsContext, opts:StyleOpts, styles:string|string[], text:any) : string {
+  let names = toStyles(styles);
+  return shouldStyle(ctx, opts) ? applyStyles(names, text) : String(text);
 }
 
 /**
@@ -0,0 +1,32 @@
+import util from 'util';
+
+export interface InspectOpts {
+  /** Levels of nesting shown before objects are abbreviated, defaults to 2. Negative for no limit. */
+  depth?:number;
+  /** Items shown of arrays, Sets and Maps, defaults to 100. */
+  maxItems?:number;
+  /** Colour the output with ANSI codes. */
+  color?:boolean;
+  /** Sort object keys, and Set and Map entries. */
+  sorted?:boolean;
+  /** Maximum line length before objects are broken over several lines, defaults to 80. */
+  breakLength?:number;
+}
+
+/**
+ * Readable rendering of any value, including circular references, functions, undefined,
+ * Map, Set, Date, Error, Buffer and class instances.
+ */
+export function inspect (value:any, opts:InspectOpts={}) : string {
+  let depth = opts.depth === undefined ? 2 : opts.depth;
+
+  let options:util.InspectOptions & {sorted?:boolean} = {
+    depth: depth < 0 ? null : depth,
+    maxArrayLength: opts.maxItems === undefined ? 100 : opts.maxItems,
+    colors: !!opts.color,
+    sorted: !!opts.sorted,
+    breakLength: opts.breakLength === undefined ? 80 : opts.breakLength
+  };
+
+  return util.inspect(value, options);
+}
@@ -0,0 +1,97 @@
+import {R} from 'rpscript-interface';
+import {toJson} from './format';
+import {toVarName} from './variables';
+
+export type MissingPolicy = 'leave'|'empty'|'throw';
+
+export interface InterpolateOpts {
+  /** What to do with references to unbound variables, defaults to 'leave'. */
+  missing?:MissingPolicy;
+}
+
+type Filter = (value:any, ...args:any[]) => any;
+
+/** Filters applied with ${name | filter:arg1,arg2}. */
+const FILTERS:{[name:string]:Filter} = {
+  upper: value => String(value).toUpperCase(),
+  lower: value => String(value).toLowerCase(),
+  trim: value => String(value).trim(),
+  fixed: (value, digits=0) => Number(value).toFixed(Number(digits)),
+  json: value => toJson(value),
+  length: value => R.length(value),
+  join: (value, separator=',') => R.join(String(separator), value),
+  default: (value, fallback) => value === undefined || value === null || value === '' ? fallback : value
+};
+
+// \${...}, \$name, ${...} or $name
+const REFERENCE = /\\\$(\{[^}]*\}|[A-Za-z_]\w*)|\$\{([^}]*)\}|\$([A-Za-z_]\w*)/g;
+
+function parseArg (arg:string) : any {
+  arg = arg.trim();
+  if(/^'.*'$|^".*"$/.test(arg)) return arg.slice(1, -1);
+  if(arg !== '' && !isNaN(Number(arg))) return Number(arg);
+
+  return arg;
+}
+
+/** Split 'order.items[0].sku' or "row['first name']" into ['order','items',0,'sku']. */
+export function parsePath (path:string) : (string|number)[] {
+  path = path.trim();
+  let segments = [];
+  let pattern = /\s*(?:\.?\s*([$A-Za-z_][$\w]*)|\[\s*(\d+)\s*\]|\[\s*'([^']*)'\s*\]|\[\s*"([^"]*)"\s*\])/y;
+
+  let match;
+  while(pattern.lastIndex < path.length && (match = pattern.exec(path))) {
+    if(match[1] !== undefined) segments.push(match[1]);
+    else if(match[2] !== undefined) segments.push(Number(match[2]));
+    else segments.push(match[3] !== undefined ? match[3] : match[4]);
+  }
+  if(pattern.lastIndex < path.length || segments.length === 0)
+    throw new Error(`Invalid variable path '${path}'`);
+
+  return segments;
+}
+
+function render (value:any) : string {
+  if(typeof value === 'string') return value;
+  if(value !== null && typeof value === 'object') return toJson(value);
+
+  return String(value);
+}
+
+function applyFilter (expression:string, value:any) : any {
+  let [name, args] = R.splitAt(expression.indexOf(':') < 0 ? expression.length : expression.indexOf(':'), expression);
+  name = name.trim();
+
+  let filter = FILTERS[name];
+  if(!filter) throw new Error(`Unknown interpolation filter '${name}', expected one of ${R.keys(FILTERS).join(', ')}`);
+  if(value === undefined && name !== 'default') return value;
+
+  let params = R.map(parseArg, args.slice(1).match(/'[^']*'|"[^"]*"|[^,]+/g) || []);
+  return filter(value, ...params);
+}
+
+/**
+ * Replace ${path | filter:args} and $name references in template with the variables of vars.
+ * A backslash before $ keeps the reference as literal text.
+ */
+export function interpolate (template:string, vars:Object, opts:InterpolateOpts={}) : string {
+  let missing = opts.missing || 'leave';
+  if(!R.contains(missing, ['leave','empty','throw']))
+    throw new Error(`Unknown missing policy '${missing}', expected leave, empty or throw`);
+
+  return String(template).replace(REFERENCE, (text, escaped, expression, name) => {
+    if(escaped !== undefined) return '$' + escaped;
+
+    let [path, ...filters] = expression !== undefined ? expression.split('|') : [name];
+    let [root, ...rest] = parsePath(path);
+
+    let value = R.path(rest, vars[toVarName(String(root))]);
+    value = R.reduce((val, filter) => applyFilter(filter.trim(), val), value, filters);
+
+    if(value !== undefined) return render(value);
+
+    if(missing === 'throw') throw new Error(`Cannot interpolate ${text}: variable ${path.trim()} is not bound`);
+    return missing === 'empty' ? '' : text;
+  });
+}
@@ -0,0 +1,76 @@
+import {RpsContext,R} from 'rpscript-interface';
+import {InspectOpts} from './inspect';
+
+export type LogLevel = 'debug'|'info'|'warn'|'error';
+
+/** Levels in ascending order of severity. */
+export const LOG_LEVELS:LogLevel[] = ['debug','info','warn','error'];
+
+export interface LogOpts {
+  /** Level of the message, defaults to 'info'. */
+  level?:LogLevel;
+  /** Print as JSON line, overrides the format configured on the context. */
+  json?:boolean;
+  /** Include the script variables in JSON lines. Off by default, as they may hold secrets. */
+  vars?:boolean;
+  /** Remove ANSI escape codes when the output sink is not a terminal. */
+  stripAnsi?:boolean;
+  /** Render values other than strings with inspect, optionally with inspect opts. */
+  inspect?:boolean|InspectOpts;
+}
+
+/** Resolve a level name, throwing on anything unknown. */
+export function toLevel (level?:string) : LogLevel {
+  if(level === undefined || level === null) return 'info';
+
+  let lvl = String(level).trim().toLowerCase();
+  if(!R.contains(lvl, LOG_LEVELS))
+    throw new Error(`Unknown log level '${level}', expected one of ${LOG_LEVELS.join(', ')}`);
+
+  return lvl as LogLevel;
+}
+
+/** True if a message of level should be printed when min is the threshold. */
+export function isEnabled (level:LogLevel, min:LogLevel) : boolean {
+  return LOG_LEVELS.indexOf(level) >= LOG_LEVELS.indexOf(min);
+}
+
+/** warn and error go to stderr, the rest to stdout. */
+export function isErrorLevel (level:LogLevel) : boolean {
+  return level === 'warn' || level === 'error';
+}
+
+/** The script variables, i.e. the $ prefixed entries of ctx.variables. */
+export function scriptVariables (ctx:RpsContext) : Object {
+  return R.pickBy((val, key) => key.charAt(0) === '$', ctx.variables || {});
+}
+
+/** JSON.stringify that replaces circular references instead of throwing. */
+export function safeStringify (obj:any) : string {
+  let seen = new WeakSet();
+
+  return JSON.stringify(obj, (key, value) => {
+    if(typeof value === 'object' && value !== null) {
+      if(seen.has(value)) return '[Circular]';
+      seen.add(value);
+    }
+    return value;
+  });
+}
+
+/** Render text the way console.log would join its arguments on separate lines. */
+export function toText (text:any[]) : string {
+  return R.join('\n',text);
+}
+
+/** Render a log record as a single JSON line. */
+export function toJsonLine (ctx:RpsContext, level:LogLevel, text:any[], withVars:boolean) : string {
+  let record:any = {
+    timestamp: new Date().toISOString(),
+    level: level,
+    message: text.length == 1 ? text[0] : text
+  };
+  if(withVars) record.variables = scriptVariables(ctx);
+
+  return safeStringify(record);
+}
@@ -0,0 +1,113 @@
+import fs from 'fs';
+
+export type OutputStream = 'stdout'|'stderr';
+
+/**
+ * Destination of everything the basic module prints.
+ * Set one as the output of the basic module context to capture or redirect printing.
+ */
+export interface OutputSink {
+  write (text:string, stream?:OutputStream) : void;
+  /** True if stream ends up on a terminal. Sinks without it are never terminals. */
+  isTTY? (stream?:OutputStream) : boolean;
+  /** Write out anything still buffered. */
+  flush? () : Promise<void>;
+}
+
+/** Default sink, writes to process.stdout and process.stderr. */
+export class ConsoleSink implements OutputSink {
+  write (text:string, stream:OutputStream='stdout') : void {
+    if(stream === 'stderr') process.stderr.write(text);
+    else process.stdout.write(text);
+  }
+
+  isTTY (stream:OutputStream='stdout') : boolean {
+    return !!process[stream].isTTY;
+  }
+
+  /** Resolves once what was written before has been handed to the operating system. */
+  flush () : Promise<void> {
+    let drain = (stream:NodeJS.WriteStream) => new Promise<void>(resolve => stream.write('', () => resolve()));
+
+    return Promise.all([drain(process.stdout), drain(process.stderr)]).then(() => undefined);
+  }
+}
+
+/** Keeps everything written in memory, handy for tests. */
+export class MemorySink implements OutputSink {
+  stdout:string[] = [];
+  stderr:string[] = [];
+
+  write (text:string, stream:OutputStream='stdout') : void {
+    this[stream].push(text);
+  }
+
+  /** Everything written to stream so far. */
+  text (stream:OutputStream='stdout') : string {
+    return this[stream].join('');
+  }
+
+  clear () : void {
+    this.stdout = [];
+    this.stderr = [];
+  }
+}
+
+export interface FileSinkOpts {
+  /** Size in bytes after which the file is rotated. No rotation if not set. */
+  maxSize?:number;
+  /** Number of rotated files kept as path.1 ... path.n, defaults to 5. */
+  maxFiles?:number;
+}
+
+/**
+ * Appends both streams to a file.
+ * When the file would grow beyond maxSize it is renamed to path.1, path.1 to path.2
+ * and so on, dropping the oldest beyond maxFiles.
+ */
+export class FileSink implements OutputSink {
+  readonly maxFiles:number;
+
+  constructor (readonly path:string, readonly opts:FileSinkOpts={}) {
+    this.maxFiles = opts.maxFiles === undefined ? 5 : opts.maxFiles;
+  }
+
+  write (text:string) : void {
+    if(this.shouldRotate(Buffer.byteLength(text))) this.rotate();
+
+    fs.appendFileSync(this.path, text);
+  }
+
+  private shouldRotate (incoming:number) : boolean {
+    if(!this.opts.maxSize || !fs.existsSync(this.path)) return false;
+
+    let size = fs.statSync(this.path).size;
+    return size > 0 && size + incoming > this.opts.maxSize;
+  }
+
+  private rotate () : void {
+    if(this.maxFiles < 1) {
+      fs.unlinkSync(this.path);
+      return;
+    }
+
+    let oldest = `${this.path}.${this.maxFiles}`;
+    if(fs.existsSync(oldest)) fs.unlinkSync(oldest);
+
+    for(let i = this.maxFiles - 1; i >= 1; i--) {
+      let file = `${this.path}.${i}`;
+      if(fs.existsSync(file)) fs.renameSync(file, `${this.path}.${i+1}`);
+    }
+    fs.renameSync(this.path, `${this.path}.1`);
+  }
+}
+
+/** True if stream of sink ends up on a terminal. */
+export function isTerminal (sink:OutputSink, stream:OutputStream='stdout') : boolean {
+  return !!(sink.isTTY && sink.isTTY(stream));
+}
+
+/** Convert anything printed into text for a sink. */
+export function toOutput (value:any) : string {
+  return typeof value === 'string' ? value : String(value);
+}
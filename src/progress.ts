@@ -0,0 +1,134 @@
+import {OutputSink,isTerminal} from './output';
+import {Duration,toSeconds} from './time';
+
+export interface ProgressOpts {
+  /** Text printed before the bar. */
+  label?:string;
+  /** Number of characters of the bar, defaults to 30. */
+  width?:number;
+  /** Minimum time between two renders. Defaults to 0.1 second on a terminal, 1 second elsewhere. */
+  interval?:Duration;
+}
+
+const CLEAR_LINE = '\r\u001b[K';
+const SPINNER_FRAMES = ['⠋','⠙','⠹','⠸','⠼','⠴','⠦','⠧','⠇','⠏'];
+
+function seconds (ms:number) : string {
+  let secs = Math.round(ms / 1000);
+  if(secs < 60) return `${secs}s`;
+
+  let mins = Math.floor(secs / 60);
+  if(mins < 60) return `${mins}m${String(secs % 60).padStart(2,'0')}s`;
+
+  return `${Math.floor(mins / 60)}h${String(mins % 60).padStart(2,'0')}m`;
+}
+
+/**
+ * Progress of a known number of steps.
+ * On a terminal the bar is redrawn in place, elsewhere a plain line is printed at most every interval.
+ */
+export class ProgressBar {
+  current = 0;
+  finished = false;
+
+  private started = Date.now();
+  private lastRender = 0;
+  private readonly tty:boolean;
+  private readonly interval:number;
+
+  constructor (private output:OutputSink, readonly total:number, private opts:ProgressOpts={}) {
+    if(!(total >= 0)) throw new Error(`Progress total must be a positive number, got ${total}`);
+
+    this.tty = isTerminal(output);
+    this.interval = opts.interval !== undefined ? toSeconds(opts.interval) * 1000 : (this.tty ? 100 : 1000);
+  }
+
+  tick (count=1) : ProgressBar {
+    if(this.finished) return this;
+
+    this.current = Math.min(this.total, this.current + count);
+    if(this.current >= this.total) return this.done();
+
+    let now = Date.now();
+    if(this.lastRender === 0 || now - this.lastRender >= this.interval) {
+      this.lastRender = now;
+      this.render();
+    }
+    return this;
+  }
+
+  done () : ProgressBar {
+    if(this.finished) return this;
+
+    this.finished = true;
+    this.render();
+    if(this.tty) this.output.write('\n');
+
+    return this;
+  }
+
+  /** Text of the bar, without any terminal control codes. */
+  toString () : string {
+    let elapsed = Date.now() - this.started;
+    let ratio = this.total === 0 ? 1 : this.current / this.total;
+    let rate = elapsed > 0 ? this.current / (elapsed / 1000) : 0;
+
+    let parts = [];
+    if(this.opts.label) parts.push(this.opts.label);
+    if(this.tty) {
+      let width = this.opts.width || 30;
+      let filled = Math.round(width * ratio);
+      parts.push('[' + '#'.repeat(filled) + '-'.repeat(width - filled) + ']');
+    }
+    parts.push(`${Math.floor(ratio * 100)}%`, `${this.current}/${this.total}`, `${rate.toFixed(1)}/s`);
+
+    if(this.finished) parts.push(`in ${seconds(elapsed)}`);
+    else if(this.current > 0) parts.push(`ETA ${seconds(elapsed / this.current * (this.total - this.current))}`);
+
+    return parts.join(' ');
+  }
+
+  private render () : void {
+    if(this.tty) this.output.write(CLEAR_LINE + this.toString());
+    else this.output.write(this.toString() + '\n');
+  }
+}
+
+/**
+ * Progress of unknown length.
+ * On a terminal it animates until done, elsewhere it prints the label once when started and when done.
+ */
+export class Spinner {
+  finished = false;
+
+  private frame = 0;
+  private timer:NodeJS.Timer;
+
+  constructor (private output:OutputSink, readonly label:string='', interval=80) {
+    if(isTerminal(output)) {
+      this.timer = setInterval(() => this.render(), interval);
+      this.timer.unref();
+      this.render();
+    }
+    else output.write(`${label}...\n`);
+  }
+
+  done (message?:string) : Spinner {
+    if(this.finished) return this;
+    this.finished = true;
+
+    let text = message !== undefined ? message : `${this.label} done`;
+    if(this.timer) {
+      clearInterval(this.timer);
+      this.output.write(CLEAR_LINE + text + '\n');
+    }
+    else this.output.write(text + '\n');
+
+    return this;
+  }
+
+  private render () : void {
+    this.frame = (this.frame + 1) % SPINNER_FRAMES.length;
+    this.output.write(`${CLEAR_LINE}${SPINNER_FRAMES[this.frame]} ${this.label}`);
+  }
+}
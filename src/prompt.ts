@@ -0,0 +1,219 @@
+import {RpsContext,R} from 'rpscript-interface';
+import {basicContext} from './context';
+
+export interface PromptOpts {
+  /** Answer used for an empty reply, and when not interactive. */
+  default?:any;
+  /** Predicate, or RegExp, the answer must satisfy. */
+  validate?:((answer:any) => any)|RegExp;
+  /** Message printed when validation fails. */
+  invalid?:string;
+  /** Number of times to ask before giving up, defaults to 3. */
+  attempts?:number;
+}
+
+export interface SecretOpts extends PromptOpts {
+  /** Character echoed for every typed character, defaults to '*'. Empty to echo nothing. */
+  mask?:string;
+}
+
+/** Stream prompts read from, with the extras of a terminal when it is one. */
+export type PromptInput = NodeJS.ReadableStream & {isTTY?:boolean, isRaw?:boolean, setRawMode?(raw:boolean):void};
+
+interface Pending {
+  resolve:(line:string) => void;
+  reject:(err:Error) => void;
+  mask?:(text:string) => void;
+}
+
+/**
+ * Splits an input stream into lines, keeping what was read beyond the current line
+ * for the next prompt. The stream is only flowing while a line is awaited.
+ */
+class LineReader {
+  private buffer = '';
+  private lines:string[] = [];
+  private pending:Pending[] = [];
+  private ended = false;
+
+  constructor (private input:PromptInput) {
+    input.on('data', chunk => this.onData(String(chunk)));
+    input.on('end', () => this.onEnd());
+    input.on('error', err => this.fail(err));
+    input.pause();
+  }
+
+  /** Next line of input, without its line break. */
+  read () : Promise<string> {
+    return this.enqueue({resolve:null, reject:null});
+  }
+
+  /** Read a line in raw mode, calling mask for every typed character. */
+  readMasked (mask:(text:string) => void) : Promise<string> {
+    return this.enqueue({resolve:null, reject:null, mask:mask});
+  }
+
+  private enqueue (waiter:Pending) : Promise<string> {
+    return new Promise((resolve, reject) => {
+      waiter.resolve = resolve;
+      waiter.reject = reject;
+
+      if(this.lines.length > 0) return resolve(this.lines.shift());
+      if(this.ended) return reject(new Error('Input ended before an answer was given'));
+
+      this.pending.push(waiter);
+      if(waiter.mask) this.setRaw(true);
+      this.input.resume();
+    });
+  }
+
+  private onData (chunk:string) : void {
+    let waiter = this.pending[0];
+
+    if(waiter && waiter.mask && this.isRaw()) {
+      for(let char of chunk) {
+        if(char === '\u0003') return this.fail(new Error('Input cancelled'));
+        if(char === '\r' || char === '\n') return this.pushLine();
+
+        if(char === '\u007f' || char === '\b') {
+          if(this.buffer.length > 0) {
+            this.buffer = this.buffer.slice(0, -1);
+            waiter.mask('\b \b');
+          }
+        }
+        else {
+          this.buffer += char;
+          waiter.mask(char);
+        }
+      }
+      return;
+    }
+
+    this.buffer += chunk;
+    let parts = this.buffer.split(/\r?\n/);
+    this.buffer = parts.pop();
+    parts.forEach(line => this.lines.push(line));
+    this.flush();
+  }
+
+  private pushLine () : void {
+    this.lines.push(this.buffer);
+    this.buffer = '';
+    this.flush();
+  }
+
+  private flush () : void {
+    while(this.pending.length > 0 && this.lines.length > 0) {
+      let waiter = this.pending.shift();
+      if(waiter.mask) this.setRaw(false);
+      waiter.resolve(this.lines.shift());
+    }
+    if(this.pending.length === 0) this.input.pause();
+  }
+
+  private onEnd () : void {
+    this.ended = true;
+    if(this.buffer.length > 0) this.pushLine();
+    this.fail(new Error('Input ended before an answer was given'));
+  }
+
+  private fail (err:Error) : void {
+    let waiters = this.pending;
+    this.pending = [];
+    this.buffer = '';
+
+    this.setRaw(false);
+    this.input.pause();
+    waiters.forEach(waiter => waiter.reject(err));
+  }
+
+  private isRaw () : boolean {
+    return !!this.input.isRaw;
+  }
+
+  private setRaw (raw:boolean) : void {
+    if(this.input.isTTY && typeof this.input.setRawMode === 'function') this.input.setRawMode(raw);
+  }
+}
+
+const readers = new WeakMap<PromptInput,LineReader>();
+
+function lineReader (input:PromptInput) : LineReader {
+  if(!readers.has(input)) readers.set(input, new LineReader(input));
+  return readers.get(input);
+}
+
+/** Prompts are interactive if the context says so, else if the input is a terminal. */
+export function isInteractive (ctx:RpsContext) : boolean {
+  let context = basicContext(ctx);
+  if(context.interactive !== undefined) return context.interactive;
+
+  return !!context.input.isTTY;
+}
+
+async function isValid (validate:PromptOpts['validate'], answer:any) : Promise<boolean> {
+  if(!validate) return true;
+  if(validate instanceof RegExp) return validate.test(String(answer));
+
+  return !!(await validate(answer));
+}
+
+/**
+ * Print question and read answers until parse accepts one and it passes validation.
+ * parse returns undefined to reject an answer.
+ * When not interactive, the default is returned, or an error thrown if there is none.
+ */
+export async function prompt (ctx:RpsContext, question:string, opts:SecretOpts, parse:(answer:string) => any, secret=false) : Promise<any> {
+  let context = basicContext(ctx);
+  let output = context.output;
+
+  if(!isInteractive(ctx)) {
+    if(opts.default === undefined) throw new Error(`No answer for '${question}': input is not interactive and there is no default`);
+    return opts.default;
+  }
+
+  let input = context.input;
+  let reader = lineReader(input);
+  let attempts = opts.attempts === undefined ? 3 : opts.attempts;
+  let mask = opts.mask === undefined ? '*' : opts.mask;
+
+  for(let attempt = 1; attempt <= attempts; attempt++) {
+    output.write(question);
+
+    let line:string;
+    if(secret) {
+      line = await reader.readMasked(char => output.write(char.length > 1 ? char : mask));
+      output.write('\n');
+    }
+    else {
+      line = await reader.read();
+      // a terminal echoes the line break, anything else does not
+      if(!input.isTTY) output.write('\n');
+    }
+
+    let answer = R.isEmpty(line.trim()) && opts.default !== undefined ? opts.default : parse(line.trim());
+    if(answer !== undefined && await isValid(opts.validate, answer)) return answer;
+
+    output.write((opts.invalid || 'Invalid answer, please try again.') + '\n');
+  }
+
+  throw new Error(`No valid answer for '${question}' after ${attempts} attempts`);
+}
+
+/** Question followed by a hint such as the default answer. */
+export function label (question:string, hint?:any) : string {
+  return String(question).trim() + (hint !== undefined && hint !== '' ? ` [${hint}]` : '') + ' ';
+}
+
+/** Parse yes/no answers, undefined for anything else. */
+export function toBoolean (answer:string) : boolean {
+  if(/^(y|yes|true)$/i.test(answer)) return true;
+  if(/^(n|no|false)$/i.test(answer)) return false;
+  return undefined;
+}
+
+/** Pick from choices by 1 based number or by exact text, undefined if neither matches. */
+export function toChoice (choices:any[], answer:string) : any {
+  if(/^\d+$/.test(answer)) return choices[parseInt(answer, 10) - 1];
+  return R.find(choice => String(choice) === answer, choices);
+}
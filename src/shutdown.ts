@@ -0,0 +1,99 @@
+import os from 'os';
+import {RpsContext} from 'rpscript-interface';
+import {basicContext} from './context';
+import {TimeoutError} from './errors';
+import {Duration,toSeconds} from './time';
+
+export interface ExitHook {
+  cb:() => any;
+  /** Seconds the cleanup may take before it is given up on. */
+  timeout:number;
+}
+
+export interface OnExitOpts {
+  /** How long the cleanup may take, defaults to 10 seconds. */
+  timeout?:Duration;
+}
+
+export interface ExitOpts {
+  /** Message printed before exiting, to stderr when the code is not 0. */
+  reason?:string;
+}
+
+/** Signals after which the exit hooks run before the process ends. */
+const SIGNALS:NodeJS.Signals[] = ['SIGINT','SIGTERM'];
+
+/** Contexts with exit hooks that did not run yet. */
+const pending = new Set<RpsContext>();
+let installed = false;
+
+/** Run the exit hooks of ctx, if given, and of every other context with hooks that did not run yet. */
+export function shutdownAll (ctx?:RpsContext) : Promise<any> {
+  let contexts = Array.from(pending);
+  if(ctx && !pending.has(ctx)) contexts.push(ctx);
+
+  return Promise.all(contexts.map(context => shutdown(context)));
+}
+
+/** Run the exit hooks when the script ends by itself, or is interrupted by a signal. */
+function install () : void {
+  if(installed) return;
+  installed = true;
+
+  // emitted again after the hooks settle, by then there is nothing pending
+  process.on('beforeExit', () => {
+    if(pending.size > 0) shutdownAll();
+  });
+
+  SIGNALS.forEach(signal => process.once(signal, () =>
+    shutdownAll().then(() => process.exit(128 + os.constants.signals[signal]))));
+}
+
+/**
+ * Register cb to be called before the process ends: by exit, once the script is done,
+ * or on SIGINT and SIGTERM.
+ */
+export function onExit (ctx:RpsContext, cb:() => any, opts:OnExitOpts={}) : ExitHook {
+  let hook = {cb:cb, timeout:toSeconds(opts.timeout === undefined ? 10 : opts.timeout)};
+  basicContext(ctx).exitHooks.push(hook);
+
+  pending.add(ctx);
+  install();
+
+  return hook;
+}
+
+function runHook (hook:ExitHook) : Promise<any> {
+  let timer:NodeJS.Timer;
+  let timeout = new Promise((resolve, reject) => {
+    timer = setTimeout(() => reject(new TimeoutError(`Exit hook timed out after ${hook.timeout}s`, hook.timeout)), hook.timeout * 1000);
+  });
+
+  return Promise.race([Promise.resolve().then(hook.cb), timeout])
+    .then(() => clearTimeout(timer), err => {
+      clearTimeout(timer);
+      throw err;
+    });
+}
+
+/**
+ * Run the exit hooks, the last registered first, then flush the output.
+ * A hook failing or timing out is reported on stderr and does not stop the others.
+ * Hooks run only once, even if shutdown is called again.
+ */
+export async function shutdown (ctx:RpsContext) : Promise<void> {
+  let context = basicContext(ctx);
+  let hooks = context.exitHooks.splice(0).reverse();
+  pending.delete(ctx);
+
+  for(let hook of hooks) {
+    try {
+      await runHook(hook);
+    }
+    catch(err) {
+      context.output.write(`Exit hook failed: ${err && err.message || err}\n`, 'stderr');
+    }
+  }
+
+  if(context.output.flush) await context.output.flush();
+}
@@ -0,0 +1,124 @@
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import {R} from 'rpscript-interface';
+
+export interface StoreOpts {
+  /** File of the store, defaults to the storePath of the context, else ~/.rpscript/basic-store.json. */
+  path?:string;
+  /** Namespace of the keys, defaults to the storeNamespace of the context, else the path of the running script. */
+  namespace?:string;
+  /** Seconds after which a persisted key expires. */
+  ttl?:number;
+}
+
+interface Entry {
+  value:any;
+  expires?:number;
+}
+
+export const DEFAULT_STORE_PATH = path.join(os.homedir(), '.rpscript', 'basic-store.json');
+
+/** Namespace of the running script: the path of the entry file of the process, else 'default'. */
+export function scriptNamespace () : string {
+  return require.main && require.main.filename ? path.resolve(require.main.filename) : 'default';
+}
+
+const TYPE = '$type';
+
+/** JSON replacer keeping Date, Map and Set, which JSON.stringify loses. */
+function replacer (key:string, value:any) : any {
+  let raw = this[key];
+
+  if(raw instanceof Date) return {[TYPE]:'Date', value:raw.toISOString()};
+  if(raw instanceof Map) return {[TYPE]:'Map', value:Array.from(raw.entries())};
+  if(raw instanceof Set) return {[TYPE]:'Set', value:Array.from(raw.values())};
+
+  return value;
+}
+
+function reviver (key:string, value:any) : any {
+  if(value && typeof value === 'object' && typeof value[TYPE] === 'string' && R.has('value', value)) {
+    switch(value[TYPE]) {
+      case 'Date': return new Date(value.value);
+      case 'Map': return new Map(value.value);
+      case 'Set': return new Set(value.value);
+    }
+  }
+  return value;
+}
+
+export function serialize (obj:any) : string {
+  return JSON.stringify(obj, replacer, 2);
+}
+
+export function deserialize (text:string) : any {
+  return JSON.parse(text, reviver);
+}
+
+function mkdirs (dir:string) : void {
+  if(fs.existsSync(dir)) return;
+
+  mkdirs(path.dirname(dir));
+  fs.mkdirSync(dir);
+}
+
+function isExpired (entry:Entry, now:number) : boolean {
+  return entry.expires !== undefined && entry.expires <= now;
+}
+
+/**
+ * Key value store in a JSON file, grouped by namespace.
+ * Every change rewrites the whole file through a temporary file and a rename,
+ * so a crash never leaves it half written.
+ */
+export class JsonStore {
+  constructor (readonly path:string) {}
+
+  get (namespace:string, key:string, defaultValue?:any) : any {
+    let entry:Entry = R.path([namespace, key], this.read());
+    if(!entry || isExpired(entry, Date.now())) return defaultValue;
+
+    return entry.value;
+  }
+
+  set (namespace:string, key:string, value:any, ttl?:number) : any {
+    let data = this.read();
+    let entry:Entry = {value:value};
+    if(ttl !== undefined && ttl !== null) entry.expires = Date.now() + ttl * 1000;
+
+    data[namespace] = R.assoc(key, entry, data[namespace] || {});
+    this.write(data);
+
+    return value;
+  }
+
+  delete (namespace:string, key:string) : boolean {
+    let data = this.read();
+    if(!data[namespace] || !R.has(key, data[namespace])) return false;
+
+    delete data[namespace][key];
+    if(R.isEmpty(data[namespace])) delete data[namespace];
+    this.write(data);
+
+    return true;
+  }
+
+  private read () : any {
+    if(!fs.existsSync(this.path)) return {};
+
+    let text = fs.readFileSync(this.path, 'utf8');
+    return text.trim() === '' ? {} : deserialize(text);
+  }
+
+  private write (data:any) : void {
+    let now = Date.now();
+    // expired keys are dropped whenever the file is rewritten
+    data = R.reject(R.isEmpty, R.map(R.reject(entry => isExpired(entry, now)), data));
+
+    mkdirs(path.dirname(this.path));
+    let tmp = `${this.path}.${process.pid}.tmp`;
+    fs.writeFileSync(tmp, serialize(data));
+    fs.renameSync(tmp, this.path);
+  }
+}
@@ -0,0 +1,62 @@
+import {RpsContext,R} from 'rpscript-interface';
+import {basicContext} from './context';
+import {isTerminal} from './output';
+
+/** Open and close SGR codes of each style name. */
+const STYLES:{[name:string]:[number,number]} = {
+  bold:[1,22], dim:[2,22], italic:[3,23], underline:[4,24],
+  inverse:[7,27], hidden:[8,28], strikethrough:[9,29],
+
+  black:[30,39], red:[31,39], green:[32,39], yellow:[33,39],
+  blue:[34,39], magenta:[35,39], cyan:[36,39], white:[37,39], gray:[90,39],
+
+  'bg-black':[40,49], 'bg-red':[41,49], 'bg-green':[42,49], 'bg-yellow':[43,49],
+  'bg-blue':[44,49], 'bg-magenta':[45,49], 'bg-cyan':[46,49], 'bg-white':[47,49], 'bg-gray':[100,49]
+};
+
+const ANSI_PATTERN = /\u001b\[[0-9;?]*[A-Za-z]/g;
+
+export interface StyleOpts {
+  /** Style even when the output is not a terminal or NO_COLOR is set. */
+  force?:boolean;
+}
+
+/** Names accepted by the styling verbs. */
+export const STYLE_NAMES = R.keys(STYLES);
+
+/** Split 'bold red' or ['bold','red'] into style names, throwing on unknown ones. */
+export function toStyles (styles:string|string[]) : string[] {
+  let names:string[] = Array.isArray(styles) ? styles : String(styles).split(/[\s,]+/);
+  names = R.reject(R.isEmpty, R.map(name => String(name).trim().toLowerCase(), names));
+
+  names.forEach(name => {
+    if(!STYLES[name]) throw new Error(`Unknown style '${name}', expected one of ${STYLE_NAMES.join(', ')}`);
+  });
+
+  return names;
+}
+
+/** Wrap text in the ANSI sequences of styles. */
+export function applyStyles (styles:string[], text:any) : string {
+  return R.reduce((txt, name) => {
+    let [open, close] = STYLES[name];
+    return `\u001b[${open}m${txt}\u001b[${close}m`;
+  }, String(text), styles);
+}
+
+/** Remove ANSI escape sequences from text. */
+export function stripAnsi (text:string) : string {
+  return text.replace(ANSI_PATTERN, '');
+}
+
+/** True if the NO_COLOR convention asks to disable styling. */
+export function noColor () : boolean {
+  return !!process.env.NO_COLOR;
+}
+
+/** Styling applies when forced, or when printing to a terminal and NO_COLOR is not set. */
+export function shouldStyle (ctx:RpsContext, opts:StyleOpts) : boolean {
+  if(opts && opts.force) return true;
+
+  return !noColor() && isTerminal(basicContext(ctx).output);
+}
@@ -0,0 +1,133 @@
+import {R} from 'rpscript-interface';
+
+export type Align = 'left'|'right'|'center';
+export type Border = 'box'|'markdown'|'plain';
+
+export interface TableOpts {
+  /** Keys (or indices for array rows) to show, in order. Defaults to every key found. */
+  columns?:(string|number)[];
+  /** Header titles, by column key or as a list in column order. */
+  headers?:{[column:string]:string}|string[];
+  /** Alignment of every column, or by column key. Defaults to left. */
+  align?:Align|{[column:string]:Align};
+  /** Maximum width of every column, or by column key. Longer cells are truncated with '…'. */
+  maxWidth?:number|{[column:string]:number};
+  /** Border style, defaults to 'box'. */
+  border?:Border;
+}
+
+const ELLIPSIS = '…';
+
+function toCell (value:any) : string {
+  if(value === undefined || value === null) return '';
+  let text = typeof value === 'object' ? JSON.stringify(value) : String(value);
+
+  return text.replace(/\r?\n/g, ' ');
+}
+
+function truncate (text:string, width:number) : string {
+  if(width === undefined || text.length <= width) return text;
+  if(width < 1) return '';
+
+  return text.slice(0, width - 1) + ELLIPSIS;
+}
+
+function pad (text:string, width:number, align:Align) : string {
+  let space = width - text.length;
+  if(space <= 0) return text;
+
+  if(align === 'right') return ' '.repeat(space) + text;
+  if(align === 'center') {
+    let left = Math.floor(space / 2);
+    return ' '.repeat(left) + text + ' '.repeat(space - left);
+  }
+  return text + ' '.repeat(space);
+}
+
+function byColumn<T> (setting:any, column:string|number, index:number) : T {
+  if(setting === undefined || setting === null) return undefined;
+  if(Array.isArray(setting)) return setting[index];
+  if(typeof setting === 'object') return setting[column];
+
+  return setting;
+}
+
+function columnsOf (rows:any[]) : (string|number)[] {
+  if(Array.isArray(rows[0])) {
+    let size = R.reduce(R.max, 0, R.map(R.length, rows));
+    return R.range(0, size);
+  }
+  return R.uniq(R.chain(row => R.keys(row || {}), rows));
+}
+
+function renderBox (header:string[], body:string[][], widths:number[]) : string[] {
+  let line = (left, mid, right) => left + widths.map(w => '─'.repeat(w + 2)).join(mid) + right;
+  let row = (cells:string[]) => '│ ' + cells.join(' │ ') + ' │';
+
+  let lines = [line('┌','┬','┐')];
+  if(header) lines.push(row(header), line('├','┼','┤'));
+  body.forEach(cells => lines.push(row(cells)));
+  lines.push(line('└','┴','┘'));
+
+  return lines;
+}
+
+function renderMarkdown (header:string[], body:string[][], widths:number[], aligns:Align[]) : string[] {
+  let row = (cells:string[]) => '| ' + cells.join(' | ') + ' |';
+  let rule = widths.map((w, i) => {
+    if(aligns[i] === 'right') return '-'.repeat(w - 1) + ':';
+    if(aligns[i] === 'center') return ':' + '-'.repeat(w - 2) + ':';
+    return '-'.repeat(w);
+  });
+
+  // markdown tables need a header row, use blank titles if there is none
+  header = header || widths.map(w => ' '.repeat(w));
+
+  return [row(header), row(rule)].concat(body.map(row));
+}
+
+function renderPlain (header:string[], body:string[][]) : string[] {
+  let rows = header ? [header].concat(body) : body;
+  return rows.map(cells => cells.join('  ').replace(/\s+$/, ''));
+}
+
+/**
+ * Render a list of objects, or a list of lists, as an aligned text table.
+ * Object rows get a header row from their keys, list rows only when headers is given.
+ */
+export function renderTable (rows:any[], opts:TableOpts={}) : string {
+  if(!Array.isArray(rows)) throw new Error('table expects a list of objects or a list of lists');
+  if(rows.length === 0) return '';
+
+  let border = opts.border || 'box';
+  if(!R.contains(border, ['box','markdown','plain']))
+    throw new Error(`Unknown table border '${border}', expected box, markdown or plain`);
+
+  let columns = opts.columns || columnsOf(rows);
+  let aligns:Align[] = columns.map((col, i) => byColumn(opts.align, col, i) || 'left');
+  let maxWidths:number[] = columns.map((col, i) => byColumn(opts.maxWidth, col, i));
+
+  let hasHeader = !!opts.headers || !Array.isArray(rows[0]);
+  let header = hasHeader ? columns.map((col, i) => {
+    let title = byColumn(opts.headers, col, i);
+    return truncate(toCell(title !== undefined ? title : col), maxWidths[i]);
+  }) : null;
+
+  let body = rows.map(row => columns.map((col, i) => truncate(toCell(row ? row[col] : ''), maxWidths[i])));
+
+  // markdown needs at least three dashes in the separator row
+  let minWidth = border === 'markdown' ? 3 : 0;
+  let widths = columns.map((col, i) =>
+    R.reduce(R.max, Math.max(minWidth, header ? header[i].length : 0), body.map(cells => cells[i].length)));
+
+  let align = (cells:string[]) => cells.map((cell, i) => pad(cell, widths[i], aligns[i]));
+  header = header ? align(header) : null;
+  body = body.map(align);
+
+  let lines;
+  if(border === 'markdown') lines = renderMarkdown(header, body, widths, aligns);
+  else if(border === 'plain') lines = renderPlain(header, body);
+  else lines = renderBox(header, body, widths);
+
+  return lines.join('\n');
+}
@@ -0,0 +1,123 @@
+import {R} from 'rpscript-interface';
+import {TimeoutError,AbortError} from './errors';
+import {SignalLike,whenAborted} from './cancel';
+
+/** A number of seconds, or a text like '500ms', '90s', '2m', '1h30m' or '1d'. */
+export type Duration = number|string;
+
+export interface SleepOpts {
+  /** Reject with an AbortError once the signal is aborted. */
+  signal?:SignalLike;
+}
+
+const UNITS = {ms:0.001, s:1, m:60, h:3600, d:86400};
+
+// units in decreasing order, each at most once: 1h30m, 2m15s, 1s500ms
+const DURATION = /^(?:(\d+(?:\.\d+)?)d)?(?:(\d+(?:\.\d+)?)h)?(?:(\d+(?:\.\d+)?)m(?!s))?(?:(\d+(?:\.\d+)?)s)?(?:(\d+(?:\.\d+)?)ms)?$/;
+
+/** Seconds in duration. Numbers, and texts without unit, are already seconds. */
+export function toSeconds (duration:Duration) : number {
+  let fail = () => {
+    throw new Error(`Invalid duration '${duration}', expected seconds or a text like '500ms', '2m' or '1h30m'`);
+  };
+
+  if(typeof duration === 'number') return isFinite(duration) && duration >= 0 ? duration : fail();
+  if(typeof duration !== 'string') return fail();
+
+  let text = duration.replace(/\s+/g, '').toLowerCase();
+  if(text !== '' && !isNaN(Number(text))) return toSeconds(Number(text));
+
+  let match = DURATION.exec(text);
+  if(text === '' || !match) return fail();
+
+  return R.sum(R.zipWith((amount, unit) => amount ? Number(amount) * UNITS[unit] : 0, match.slice(1), ['d','h','m','s','ms']));
+}
+
+/**
+ * Resolve after duration, without blocking the event loop.
+ * Rejects with an AbortError, and clears the timer, once the signal opt is aborted.
+ */
+export function sleep (duration:Duration, opts:SleepOpts={}) : Promise<void> {
+  let seconds = toSeconds(duration);
+
+  return new Promise<void>((resolve, reject) => {
+    let stopAbort = () => {};
+    let timer = setTimeout(() => {
+      stopAbort();
+      resolve();
+    }, seconds * 1000);
+
+    stopAbort = whenAborted(opts.signal, () => {
+      clearTimeout(timer);
+      reject(new AbortError(`Cancelled while waiting ${duration}${typeof duration === 'number' ? 's' : ''}`, opts.signal.reason));
+    });
+  });
+}
+
+export interface PollOpts extends SleepOpts {
+  /** Time between two attempts, defaults to 1 second. */
+  interval?:Duration;
+  /** Give up with a TimeoutError after that long. */
+  timeout?:Duration;
+  /** Multiply the interval by that factor after every attempt, defaults to 1. */
+  backoff?:number;
+  /** Upper bound of the interval when backing off. */
+  maxInterval?:Duration;
+  /** Give up with a TimeoutError after that many attempts. */
+  maxAttempts?:number;
+}
+
+/**
+ * Settle as value does, unless the deadline (a Date.now() time) passes or the signal is aborted first.
+ * A value still pending then is left running, its outcome ignored.
+ */
+function settleBefore (value:any, deadline:number, signal:SignalLike, timedOut:() => Error, aborted:() => Error) : Promise<any> {
+  return new Promise((resolve, reject) => {
+    let timer:NodeJS.Timer;
+    let stopAbort = () => {};
+    let settle = (fn:Function, result:any) => {
+      if(timer) clearTimeout(timer);
+      stopAbort();
+      fn(result);
+    };
+
+    if(deadline !== Infinity) timer = setTimeout(() => settle(reject, timedOut()), Math.max(deadline - Date.now(), 0));
+    stopAbort = whenAborted(signal, () => settle(reject, aborted()));
+
+    Promise.resolve(value).then(result => settle(resolve, result), err => settle(reject, err));
+  });
+}
+
+/**
+ * Call predicate, with the attempt number, until it resolves to a truthy value, and resolve with that value.
+ * An attempt still pending at the deadline, or when the signal is aborted, is given up on.
+ */
+export async function poll (predicate:(attempt:number) => any, opts:PollOpts={}) : Promise<any> {
+  let interval = toSeconds(opts.interval === undefined ? 1 : opts.interval);
+  let maxInterval = opts.maxInterval === undefined ? Infinity : toSeconds(opts.maxInterval);
+  let backoff = opts.backoff === undefined ? 1 : Number(opts.backoff);
+  let timeout = opts.timeout === undefined ? undefined : toSeconds(opts.timeout);
+  let deadline = timeout === undefined ? Infinity : Date.now() + timeout * 1000;
+
+  if(!(backoff >= 1)) throw new Error(`Invalid backoff ${opts.backoff}, expected a factor of at least 1`);
+
+  for(let attempt = 1; ; attempt++) {
+    if(opts.signal && opts.signal.aborted)
+      throw new AbortError(`Cancelled after ${attempt - 1} attempts`, opts.signal.reason);
+
+    let value = await settleBefore(new Promise(resolve => resolve(predicate(attempt))), deadline, opts.signal,
+      () => new TimeoutError(`Condition not met after ${timeout}s and ${attempt} attempts`, timeout),
+      () => new AbortError(`Cancelled after ${attempt - 1} attempts`, opts.signal.reason));
+    if(value) return value;
+
+    if(opts.maxAttempts !== undefined && attempt >= opts.maxAttempts)
+      throw new TimeoutError(`Condition not met after ${attempt} attempts`, timeout);
+
+    let remaining = (deadline - Date.now()) / 1000;
+    if(remaining <= 0)
+      throw new TimeoutError(`Condition not met after ${timeout}s and ${attempt} attempts`, timeout);
+
+    await sleep(Math.min(interval, remaining), opts);
+    interval = Math.min(interval * backoff, maxInterval);
+  }
+}
@@ -0,0 +1,175 @@
+import {RpsContext,R} from 'rpscript-interface';
+import { EventEmitter } from 'events';
+import {isPattern,destructure} from './destructure';
+import {inspect} from './inspect';
+
+export interface ConstOpts {
+  /** Deep freeze objects and lists so their content cannot change either. */
+  freeze?:boolean;
+}
+
+/**
+ * Event emitted on ctx.event whenever as, assign, const or unset change a variable,
+ * with the $ name, the old value and the new value.
+ */
+export const VAR_CHANGE_EVT = 'variable.change';
+
+/** Definitions of the constants of each frame, by $ name. */
+const constants = new WeakMap<Object,{[name:string]:string}>();
+
+/** Name of a variable as accessed from scripts, with the $ prefix. */
+export function toVarName (name:string) : string {
+  name = String(name).trim();
+  return name.charAt(0) === '$' ? name : '$' + name;
+}
+
+/** Definition of the constant variable visible from frame, undefined if it is not one. */
+function constantOf (frame:Object, variable:string) : string {
+  let name = toVarName(variable);
+
+  for(; frame; frame = Object.getPrototypeOf(frame)) {
+    let defs = constants.get(frame);
+    if(defs && defs[name] !== undefined) return defs[name];
+  }
+  return undefined;
+}
+
+/** Throw if variable is a constant in frame or any enclosing one. */
+function assertWritable (frame:Object, variable:string) : void {
+  let definition = constantOf(frame, variable);
+  if(definition !== undefined)
+    throw new Error(`Cannot reassign constant ${toVarName(variable)}, it was defined by ${definition}`);
+}
+
+function bind (frame:Object, variable:string, value:any) : void {
+  assertWritable(frame, variable);
+
+  frame[String(variable).trim()] = value;
+  frame[toVarName(variable)] = value;
+}
+
+/**
+ * Bind value to variable in the current frame, under its name as given and its $ name,
+ * the way as and assign always did.
+ */
+export function setVar (ctx:RpsContext, variable:string, value:any) : any {
+  let old = ctx.variables[toVarName(variable)];
+  bind(ctx.variables, variable, value);
+
+  ctx.event.emit(VAR_CHANGE_EVT, toVarName(variable), old, value);
+  return value;
+}
+
+/**
+ * Bind value to variable, or when variable is a destructuring pattern such as
+ * '[head, ...rest]' or '{name, address: {city}}', bind every name of the pattern.
+ */
+export function assignVar (ctx:RpsContext, variable:string, value:any) : any {
+  if(!isPattern(variable)) return setVar(ctx, variable, value);
+
+  let bindings = destructure(variable, value);
+  bindings.forEach(([name]) => assertWritable(ctx.variables, name));
+  bindings.forEach(([name, val]) => setVar(ctx, name, val));
+
+  return value;
+}
+
+function deepFreeze (value:any) : any {
+  if(value === null || typeof value !== 'object' || Object.isFrozen(value)) return value;
+
+  Object.freeze(value);
+  Object.getOwnPropertyNames(value).forEach(key => deepFreeze(value[key]));
+
+  return value;
+}
+
+/**
+ * Bind value to variable as a constant of the current frame.
+ * Constants cannot be reassigned, unset or redefined, in this frame or the ones within it.
+ */
+export function setConst (ctx:RpsContext, variable:string, value:any, opts:ConstOpts={}) : any {
+  let frame = ctx.variables;
+  let old = frame[toVarName(variable)];
+  bind(frame, variable, opts.freeze ? deepFreeze(value) : value);
+
+  let readonly = {value:value, writable:false, configurable:false, enumerable:true};
+  Object.defineProperty(frame, String(variable).trim(), readonly);
+  Object.defineProperty(frame, toVarName(variable), readonly);
+
+  let defs = constants.get(frame) || {};
+  let preview = inspect(value, {depth:0, breakLength:Infinity});
+  if(preview.length > 60) preview = preview.slice(0, 59) + '…';
+  defs[toVarName(variable)] = `const '${String(variable).trim()}' ${preview}`;
+  constants.set(frame, defs);
+
+  ctx.event.emit(VAR_CHANGE_EVT, toVarName(variable), old, value);
+  return value;
+}
+
+/** True if the variable is bound in the current frame or any enclosing one. */
+export function hasVar (ctx:RpsContext, variable:string) : boolean {
+  return toVarName(variable) in ctx.variables;
+}
+
+/** Remove the variable from the innermost frame binding it. Returns false if it was not bound. */
+export function unsetVar (ctx:RpsContext, variable:string) : boolean {
+  let name = String(variable).trim();
+  let frame = ctx.variables;
+  assertWritable(frame, name);
+
+  while(frame && !Object.prototype.hasOwnProperty.call(frame, toVarName(name))) frame = Object.getPrototypeOf(frame);
+  if(!frame) return false;
+
+  let old = frame[toVarName(name)];
+  delete frame[name];
+  delete frame[toVarName(name)];
+
+  // an enclosing frame may still bind the name
+  ctx.event.emit(VAR_CHANGE_EVT, toVarName(name), old, ctx.variables[toVarName(name)]);
+  return true;
+}
+
+/** Every variable visible from the current frame, by name without the $ prefix. */
+export function listVars (ctx:RpsContext) : Object {
+  let vars = {};
+  for(let key in ctx.variables) {
+    if(key.charAt(0) === '$') vars[key.slice(1)] = ctx.variables[key];
+  }
+  return vars;
+}
+
+/**
+ * Run fn with a child frame of variables, initialised with vars.
+ * Variables of enclosing frames stay readable, but whatever fn binds is discarded afterwards.
+ */
+export async function withFrame (ctx:RpsContext, vars:Object, fn:() => any) : Promise<any> {
+  let parent = ctx.variables;
+  let frame = Object.create(parent);
+
+  R.forEachObjIndexed((value, name) => bind(frame, name, value), vars || {});
+
+  ctx.variables = frame;
+  try {
+    return await fn();
+  }
+  finally {
+    ctx.variables = parent;
+  }
+}
+
+/**
+ * Emitter of 'change' events for one variable, with the $ name, old value and new value.
+ * It keeps listening to ctx.event until close is called.
+ */
+export function watchVar (ctx:RpsContext, variable:string) : EventEmitter & {close:() => void} {
+  let name = toVarName(variable);
+  let watcher:any = new EventEmitter;
+
+  let listener = (changed, old, value) => {
+    if(changed === name) watcher.emit('change', changed, old, value);
+  };
+  ctx.event.on(VAR_CHANGE_EVT, listener);
+  watcher.close = () => ctx.event.removeListener(VAR_CHANGE_EVT, listener);
+
+  return watcher;
+}
@@ -1,8 +1,15 @@
 import {expect} from 'chai';
 import m from 'mocha';
 
-import RPSBasic from '../src/index';
-import { RpsContext } from 'rpscript-interface';
+import fs from 'fs';
+import os from 'os';
+import path from 'path';
+import { PassThrough } from 'stream';
+
+import { EventEmitter } from 'events';
+
+import RPSBasic, {MemorySink,FileSink,TimeoutError,AbortError} from '../src/index';
+import { RpsContext, R } from 'rpscript-interface';
 
 m.describe('Basic', () => {
 
@@ -16,6 +23,705 @@ m.describe('Basic', () => {
     expect(res2).to.be.deep.equals(['Hello','World']);
   });
 
+  m.it('should filter and route log levels', async function () {
+    let context = new RpsContext;
+    let basic = new RPSBasic;
+    let sink = new MemorySink;
+    context.addModuleContext('basic',{logLevel:'warn',output:sink});
+
+    await basic.print(context,{},'skipped');
+    let res = await basic.logError(context,{},'failed');
+    expect(res).to.be.equals('failed');
+    await basic.logWarn(context,{json:true},'retry');
+
+    expect(sink.text('stdout')).to.be.equals('');
+    expect(sink.stderr[0]).to.be.equals('failed\n');
+    expect(JSON.parse(sink.stderr[1])).to.include({level:'warn',message:'retry'});
+    expect(JSON.parse(sink.stderr[1])).to.not.have.property('variables');
+
+    await basic.as(context,{},'token','s3cret');
+    await basic.logError(context,{json:true,vars:true},'failed');
+    expect(JSON.parse(sink.stderr[2]).variables).to.include({$token:'s3cret'});
+  });
+
+  m.it('should keep the state of each context apart', async function () {
+    let basic = new RPSBasic;
+    let sink = new MemorySink;
+    let context = new RpsContext;
+    context.addModuleContext('basic',{logLevel:'debug',output:sink});
+    await basic.print(context,{},'mine');
+
+    let other = new RpsContext;
+    let otherSink = new MemorySink;
+    await basic.print(other,{},'not mine');
+    other.addModuleContext('basic',{output:otherSink});
+    await basic.logDebug(other,{},'hidden');
+    await basic.print(other,{},'theirs');
+
+    expect(sink.text()).to.be.equals('mine\n');
+    expect(otherSink.text()).to.be.equals('theirs\n');
+  });
+
+  m.it('should write to and rotate a file sink', async function () {
+    let context = new RpsContext;
+    let basic = new RPSBasic;
+    let file = path.join(os.tmpdir(), `rps-basic-${process.pid}.log`);
+    context.addModuleContext('basic',{output:new FileSink(file,{maxSize:8,maxFiles:1})});
+
+    try {
+      await basic.stdout(context,{},'first');
+      await basic.stdout(context,{},'second');
+
+      expect(fs.readFileSync(file,'utf8')).to.be.equals('second');
+      expect(fs.readFileSync(file+'.1','utf8')).to.be.equals('first');
+    }
+    finally {
+      [file, file+'.1'].forEach(f => fs.existsSync(f) && fs.unlinkSync(f));
+    }
+  });
+
+  m.it('should render a table', async function () {
+    let context = new RpsContext;
+    let basic = new RPSBasic;
+    let rows = [{id:1,name:'apple',total:2.5},{id:22,name:'watermelon',total:10}];
+
+    let box = await basic.table(context,{columns:['name','total'],align:{total:'right'}},rows);
+    expect(box).to.be.equals([
+      '┌────────────┬───────┐',
+      '│ name       │ total │',
+      '├────────────┼───────┤',
+      '│ apple      │   2.5 │',
+      '│ watermelon │    10 │',
+      '└────────────┴───────┘'
+    ].join('\n'));
+
+    let md = await basic.table(context,{border:'markdown',headers:{id:'#'},maxWidth:{name:5}},rows);
+    expect(md).to.be.equals([
+      '| #   | name  | total |',
+      '| --- | ----- | ----- |',
+      '| 1   | apple | 2.5   |',
+      '| 22  | wate… | 10    |'
+    ].join('\n'));
+
+    let plain = await basic.table(context,{border:'plain'},[['a','b'],['cc','d']]);
+    expect(plain).to.be.equals('a   b\ncc  d');
+  });
+
+  m.it('should style text only when forced or on a terminal', async function () {
+    let context = new RpsContext;
+    let basic = new RPSBasic;
+    let sink = new MemorySink;
+    context.addModuleContext('basic',{output:sink});
+
+    expect(await basic.color(context,{},'red','plain')).to.be.equals('plain');
+
+    let red:any = await basic.color(context,{force:true},'red');
+    expect(['a'].map(red)).to.be.deep.equals(['\u001b[31ma\u001b[39m']);
+
+    let styled = await basic.style(context,{force:true},'bold green','ok');
+    expect(styled).to.be.equals('\u001b[32m\u001b[1mok\u001b[22m\u001b[39m');
+    expect(await basic.style(context,{},'blink','x')).to.be.an('error');
+
+    await basic.print(context,{stripAnsi:true},styled);
+    expect(sink.text()).to.be.equals('ok\n');
+  });
+
+  m.it('should format printf style', async function () {
+    let context = new RpsContext;
+    let basic = new RPSBasic;
+
+    let fn:any = await basic.format(context,{},'Item %s costs %.2f');
+    expect([['apple',1.5],['pear',2]].map(fn)).to.be.deep.equals(['Item apple costs 1.50','Item pear costs 2.00']);
+
+    expect(await basic.format(context,{},'%-6s|%05.1f%%','rate',9.24)).to.be.equals('rate  |009.2%');
+    expect(await basic.format(context,{},'%+d %i %j',[3.7,-2.2,{a:1}])).to.be.equals('+3 -2 {"a":1}');
+    expect(await basic.format(context,{},'%s and %s','one')).to.be.equals('one and %s');
+    expect(await basic.format(context,{},'%j|%5j',[undefined,() => 1])).to.be.equals('undefined|undefined');
+  });
+
+  m.it('should prompt from an in-memory input', async function () {
+    let context = new RpsContext;
+    let basic = new RPSBasic;
+    let input = new PassThrough;
+    let sink = new MemorySink;
+    context.addModuleContext('basic',{input:input,output:sink,interactive:true});
+
+    input.write('abc\n42\n\nmaybe\nyes\n2\nhunter2\n');
+
+    expect(await basic.ask(context,{validate:/^\d+$/},'Port?')).to.be.equals('42');
+    expect(await basic.ask(context,{default:'guest'},'User?')).to.be.equals('guest');
+    expect(await basic.confirm(context,{},'Sure?')).to.be.equals(true);
+    expect(await basic.choose(context,{},'Env?',['dev','prod'])).to.be.equals('prod');
+    expect(await basic.askSecret(context,{},'Password:')).to.be.equals('hunter2');
+
+    expect(sink.text()).to.contain('Invalid answer').and.contain('  2) prod');
+
+    context.addModuleContext('basic',{input:input,output:sink,interactive:false});
+    expect(await basic.ask(context,{default:'x'},'Name?')).to.be.equals('x');
+    expect(await basic.ask(context,{},'Name?')).to.be.an('error');
+  });
+
+  m.it('should report progress as plain lines off a terminal', async function () {
+    let context = new RpsContext;
+    let basic = new RPSBasic;
+    let sink = new MemorySink;
+    context.addModuleContext('basic',{output:sink});
+
+    let bar = await basic.progress(context,{label:'rows',interval:0},2);
+    await basic.progressTick(context,{},bar);
+    await basic.progressTick(context,{},bar);
+    expect(sink.stdout[0]).to.match(/^rows 50% 1\/2 .*ETA/);
+    expect(sink.stdout[1]).to.match(/^rows 100% 2\/2 .* in \d+s\n$/);
+
+    sink.clear();
+    let slow = await basic.progress(context,{interval:'1m'},4);
+    for(let i = 0; i < 4; i++) await basic.progressTick(context,{},slow);
+    expect(sink.stdout.length).to.be.equals(2);
+
+    sink.clear();
+    let invoices = await basic.progress(context,{interval:0},3);
+    let tick = await basic.tap(context,{},() => basic.progressTick(context,{},invoices));
+    expect(await basic.forEach(context,{},tick,['a','b','c'])).to.be.deep.equals(['a','b','c']);
+    await new Promise(resolve => setImmediate(resolve));
+    expect(sink.stdout.length).to.be.equals(3);
+    expect(sink.stdout[2]).to.contain('3/3');
+
+    sink.clear();
+    let output = await basic.withProgress(context,{interval:0},R.map,async x => x * 2,[1,2,3]);
+    expect(await Promise.all(output)).to.be.deep.equals([2,4,6]);
+    expect(sink.stdout.length).to.be.equals(3);
+    expect(sink.stdout[2]).to.contain('3/3');
+
+    sink.clear();
+    let spinner = await basic.spinner(context,{},'Loading');
+    await basic.progressDone(context,{},spinner);
+    expect(sink.text()).to.be.equals('Loading...\nLoading done\n');
+  });
+
+  m.it('should inspect values stringify cannot', async function () {
+    let context = new RpsContext;
+    let basic = new RPSBasic;
+    let sink = new MemorySink;
+    context.addModuleContext('basic',{output:sink});
+
+    let obj:any = {b:new Map([['k',1]]), a:new Set([1]), when:new Date(0)};
+    obj.self = obj;
+
+    let output = await basic.inspect(context,{sorted:true,breakLength:Infinity},obj);
+    expect(output).to.match(/a: Set.*\{ 1 \}, b: Map.*\{ 'k' => 1 \}, self: \[Circular.*\], when: 1970-01-01T00:00:00.000Z/);
+    expect(await basic.inspect(context,{maxItems:2},[1,2,3])).to.contain('1 more item');
+
+    await basic.print(context,{inspect:true},'text',new Error('boom'));
+    expect(sink.text()).to.match(/^text\nError: boom\n    at /);
+  });
+
+  m.it('should scope variables', async function () {
+    let context = new RpsContext;
+    let basic = new RPSBasic;
+
+    await basic.as(context,{},'name','global');
+    let res = await basic.withVars(context,{},{tmp:1},async () => {
+      await basic.as(context,{},'name','local');
+      expect(await basic.vars(context,{})).to.include({name:'local',tmp:1});
+      return context.variables['$name'];
+    });
+
+    expect(res).to.be.equals('local');
+    expect(context.variables['$name']).to.be.equals('global');
+    expect(await basic.hasVar(context,{},'tmp')).to.be.equals(false);
+    expect(await basic.getVar(context,{},'tmp',5)).to.be.equals(5);
+
+    expect(await basic.unset(context,{},'name')).to.be.equals(true);
+    expect(await basic.hasVar(context,{},'$name')).to.be.equals(false);
+  });
+
+  m.it('should destructure in as and assign', async function () {
+    let context = new RpsContext;
+    let basic = new RPSBasic;
+
+    await basic.as(context,{},'[head, , ...rest]',[1,2,3,4]);
+    expect(context.variables['$head']).to.be.equals(1);
+    expect(context.variables['$rest']).to.be.deep.equals([3,4]);
+
+    let customer = {name:'John', address:{city:'Singapore'}};
+    await basic.assign(context,{},"{name, address: {city}, port = 8080, 'tags': [first = 'none'] = []}",customer);
+    expect(context.variables['$name']).to.be.equals('John');
+    expect(context.variables['$city']).to.be.equals('Singapore');
+    expect(context.variables['$port']).to.be.equals(8080);
+    expect(context.variables['$first']).to.be.equals('none');
+    expect(await basic.as(context,{},'{address: {city}}',{name:'Jane'})).to.be.an('error')
+      .with.property('message','Cannot destructure value.address: expected an object but got undefined');
+  });
+
+  m.it('should not reassign constants', async function () {
+    let context = new RpsContext;
+    let basic = new RPSBasic;
+
+    await basic.constant(context,{freeze:true},'config',{retries:3});
+    let err = await basic.as(context,{},'$config',{});
+    expect(err).to.be.an('error').with.property('message')
+      .that.equals("Cannot reassign constant $config, it was defined by const 'config' { retries: 3 }");
+    expect(await basic.assign(context,{},'{config}',{config:1})).to.be.an('error');
+    expect(await basic.constant(context,{},'config',1)).to.be.an('error');
+    expect(await basic.scope(context,{},() => basic.as(context,{},'config',2))).to.be.an('error');
+    expect(await basic.unset(context,{},'config')).to.be.an('error');
+
+    expect(Object.isFrozen(context.variables['$config'])).to.be.equals(true);
+    expect(context.variables['$config']).to.be.deep.equals({retries:3});
+  });
+
+  m.it('should persist values across contexts', async function () {
+    let file = path.join(os.tmpdir(), `rps-basic-${process.pid}`, 'store.json');
+    let basic = new RPSBasic;
+    let context = new RpsContext;
+    context.addModuleContext('basic',{storePath:file,storeNamespace:'script-a'});
+
+    try {
+      let when = new Date(0);
+      await basic.persist(context,{},'last',{when:when,seen:new Map([['a',new Set([1])]])});
+      await basic.persist(context,{ttl:-1},'expired',true);
+
+      expect(await basic.restore(context,{},'expired','gone')).to.be.equals('gone');
+
+      let other = new RpsContext;
+      other.addModuleContext('basic',{storePath:file});
+      let restored = await basic.restore(other,{namespace:'script-a'},'last');
+      expect(restored.when).to.be.an.instanceof(Date);
+      expect(restored.when.getTime()).to.be.equals(0);
+      expect(restored.seen.get('a').has(1)).to.be.equals(true);
+
+      expect(await basic.restore(other,{},'last','none')).to.be.equals('none');
+      await basic.persist(other,{},'last','mine');
+      expect(await basic.restore(other,{namespace:path.resolve(require.main.filename)},'last')).to.be.equals('mine');
+      expect(await basic.forget(other,{namespace:'script-a'},'last')).to.be.equals(true);
+      expect(await basic.restore(other,{namespace:'script-a'},'last')).to.be.equals(undefined);
+    }
+    finally {
+      if(fs.existsSync(file)) fs.unlinkSync(file);
+      fs.rmdirSync(path.dirname(file));
+    }
+  });
+
+  m.it('should read environment variables and .env files', async function () {
+    let context = new RpsContext;
+    let basic = new RPSBasic;
+    let file = path.join(os.tmpdir(), `rps-basic-${process.pid}.env`);
+    fs.writeFileSync(file, [
+      '# settings',
+      'export RPS_TEST_PORT=8080',
+      'RPS_TEST_FLAGS=a, b ,c # inline comment',
+      'RPS_TEST_GREETING="Hello\\nWorld"'
+    ].join('\n'));
+
+    try {
+      let entries = await basic.loadEnv(context,{bind:true},file);
+      expect(entries).to.be.deep.equals({RPS_TEST_PORT:'8080',RPS_TEST_FLAGS:'a, b ,c',RPS_TEST_GREETING:'Hello\nWorld'});
+      expect(context.variables['$RPS_TEST_PORT']).to.be.equals('8080');
+
+      expect(await basic.env(context,{},'RPS_TEST_PORT')).to.be.equals('8080');
+      expect(await basic.env(context,{},'RPS_TEST_NONE','x')).to.be.equals('x');
+      expect(await basic.envAs(context,{},'number','RPS_TEST_PORT')).to.be.equals(8080);
+      expect(await basic.envAs(context,{},'list','RPS_TEST_FLAGS')).to.be.deep.equals(['a','b','c']);
+      expect(await basic.envAs(context,{},'boolean','RPS_TEST_PORT')).to.be.an('error');
+
+      let err = await basic.envRequired(context,{},'RPS_TEST_PORT','RPS_TEST_A','RPS_TEST_B');
+      expect(err).to.be.an('error').with.property('message','Missing required environment variables: RPS_TEST_A, RPS_TEST_B');
+    }
+    finally {
+      fs.unlinkSync(file);
+      ['RPS_TEST_PORT','RPS_TEST_FLAGS','RPS_TEST_GREETING'].forEach(name => delete process.env[name]);
+    }
+  });
+
+  m.it('should notify variable changes', async function () {
+    let context = new RpsContext;
+    let basic = new RPSBasic;
+    let changes = [];
+
+    await basic.as(context,{},'count',1);
+    let watcher:any = await basic.watchVar(context,{},'count',change => changes.push(change));
+    let next = basic.listenOnce(context,{},watcher,'change');
+
+    await basic.as(context,{},'count',2);
+    await basic.assign(context,{},'other',3);
+    await basic.unset(context,{},'count');
+    watcher.close();
+    await basic.as(context,{},'count',4);
+
+    expect(await next).to.be.deep.equals(['$count',1,2]);
+    expect(changes).to.be.deep.equals([['$count',1,2],['$count',2,undefined]]);
+  });
+
+  m.it('should interpolate variables', async function () {
+    let context = new RpsContext;
+    let basic = new RPSBasic;
+
+    await basic.as(context,{},'name','John');
+    await basic.as(context,{},'order',{items:[{sku:'A-1'}],total:12.5,tags:['x','y']});
+
+    let text = await basic.interpolate(context,{},"Hi $name, ${ order.items[0].sku } costs ${order.total | fixed:2} (${order.tags | join:', ' | upper})");
+    expect(text).to.be.equals('Hi John, A-1 costs 12.50 (X, Y)');
+
+    expect(await basic.interpolate(context,{},'\\$name costs \\${price}')).to.be.equals('$name costs ${price}');
+    expect(await basic.interpolate(context,{},"$nobody ${title | default:'customer'}")).to.be.equals('$nobody customer');
+    expect(await basic.interpolate(context,{missing:'empty'},'[$nobody]')).to.be.equals('[]');
+    expect(await basic.interpolate(context,{missing:'throw'},'${order.missing}')).to.be.an('error');
+  });
+
+  m.it('should time out, cancel and filter listen-once', async function () {
+    let context = new RpsContext;
+    let basic = new RPSBasic;
+    let emitter = new EventEmitter;
+
+    let timedOut = await basic.listenOnce(context,{timeout:0.01},emitter,'connected');
+    expect(timedOut).to.be.an.instanceof(TimeoutError);
+    timedOut = await basic.listenOnce(context,{timeout:'10ms'},emitter,'connected');
+    expect(timedOut).to.be.an.instanceof(TimeoutError).with.property('timeout',0.01);
+
+    let handle = await basic.cancelHandle(context,{});
+    let cancelled = basic.listenOnce(context,{signal:handle},emitter,'connected');
+    await basic.cancel(context,{},handle,'stop');
+    expect(await cancelled).to.be.an.instanceof(AbortError).with.property('reason','stop');
+
+    let failed = basic.listenOnce(context,{},emitter,'connected');
+    emitter.emit('error', new Error('refused'));
+    expect(await failed).to.be.an('error').with.property('message','refused');
+
+    let broken = basic.listenOnce(context,{filter:() => { throw new Error('bad filter'); }},emitter,'response');
+    emitter.emit('response',{status:500});
+    expect((await broken).message).to.be.equals('bad filter');
+
+    let matched = basic.listenOnce(context,{filter:res => res.status === 200},emitter,'response');
+    emitter.emit('response',{status:500});
+    emitter.emit('response',{status:200},'body');
+    expect(await matched).to.be.deep.equals([{status:200},'body']);
+    expect(emitter.listenerCount('response')).to.be.equals(0);
+  });
+
+  m.it('should create emitters and emit curried events', async function () {
+    let context = new RpsContext;
+    let basic = new RPSBasic;
+    let received = [];
+
+    let emitter = await basic.emitter(context,{});
+    await basic.on(context,{},'row',params => received.push(params),emitter);
+    expect(await basic.listenerCount(context,{},'row',emitter)).to.be.equals(1);
+
+    let emitRow:any = await basic.emit(context,{},'row',emitter);
+    expect(R.map(emitRow,[1,2])).to.be.deep.equals([1,2]);
+    expect(await basic.emit(context,{spread:true},'row',emitter,['a','b'])).to.be.deep.equals(['a','b']);
+
+    expect(received).to.be.deep.equals([[1],[2],['a','b']]);
+  });
+
+  m.it('should unsubscribe listen-on', async function () {
+    let context = new RpsContext;
+    let basic = new RPSBasic;
+    let emitter = new EventEmitter;
+    let calls = [];
+
+    let sub:any = await basic.on(context,{handle:true},'a',p => calls.push('sub'),emitter);
+    await basic.on(context,{name:'named'},'a',p => calls.push('named'),emitter);
+    await basic.on(context,{times:2},'b',p => calls.push('twice'),emitter);
+    await basic.on(context,{},'b',p => calls.push('b'),emitter);
+    emitter.on('b', () => {});
+
+    emitter.emit('a');
+    expect(await basic.off(context,{},sub)).to.be.equals(1);
+    emitter.emit('a');
+    expect(await basic.off(context,{},'named')).to.be.equals(1);
+    emitter.emit('a');
+
+    emitter.emit('b'); emitter.emit('b'); emitter.emit('b');
+    expect(await basic.off(context,{},'b',emitter)).to.be.equals(1);
+    emitter.emit('b');
+
+    expect(calls).to.be.deep.equals(['sub','named','named','twice','b','twice','b','b']);
+    expect(emitter.listenerCount('b')).to.be.equals(1);
+  });
+
+  m.it('should collect events', async function () {
+    let context = new RpsContext;
+    let basic = new RPSBasic;
+    let emitter = new EventEmitter;
+
+    let counted = basic.collectEvents(context,{count:2},'row',emitter);
+    let untilEnd = basic.collectEvents(context,{until:'end'},'row',emitter);
+    let untilBig = basic.collectEvents(context,{stopWhen:n => n > 2},'row',emitter);
+    [1,2,3,4].forEach(n => emitter.emit('row',n));
+    emitter.emit('row','a','b');
+    emitter.emit('end');
+
+    expect(await counted).to.be.deep.equals([1,2]);
+    expect(await untilBig).to.be.deep.equals([1,2,3]);
+    expect(await untilEnd).to.be.deep.equals([1,2,3,4,['a','b']]);
+
+    expect(await basic.collectEvents(context,{timeout:0.01},'row',emitter)).to.be.deep.equals([]);
+    expect(await basic.collectEvents(context,{timeout:'10ms'},'row',emitter)).to.be.deep.equals([]);
+    expect(await basic.collectEvents(context,{timeout:'soon'},'row',emitter)).to.be.an('error');
+    expect(emitter.listenerCount('row')).to.be.equals(0);
+
+    let failed = basic.collectEvents(context,{count:5},'row',emitter);
+    emitter.emit('error', new Error('broken'));
+    expect(await failed).to.be.an('error');
+    expect(await basic.collectEvents(context,{},'row',emitter)).to.be.an('error');
+    expect(emitter.listenerCount('row')).to.be.equals(0);
+  });
+
+  m.it('should handle events one at a time', async function () {
+    let context = new RpsContext;
+    let basic = new RPSBasic;
+    let emitter = new EventEmitter;
+    let log = [];
+
+    let handler = async ([n]) => {
+      log.push(`start ${n}`);
+      await new Promise(resolve => setTimeout(resolve, 5));
+      if(n === 2) throw new Error('bad row');
+      log.push(`end ${n}`);
+    };
+
+    let done = basic.forEachEvent(context,{until:'end',onError:'continue'},handler,'row',emitter);
+    [1,2,3].forEach(n => emitter.emit('row',n));
+    emitter.emit('end');
+
+    expect(await done).to.be.equals(2);
+    expect(log).to.be.deep.equals(['start 1','end 1','start 2','start 3','end 3']);
+
+    let queue:any = await basic.eventQueue(context,{maxQueue:2,overflow:'drop-oldest'},'row',emitter);
+    [1,2,3].forEach(n => emitter.emit('row',n));
+    expect((await queue.next()).value).to.be.deep.equals([2]);
+    queue.close();
+    expect((await queue.next()).value).to.be.deep.equals([3]);
+    expect((await queue.next()).done).to.be.equals(true);
+
+    let strict = basic.forEachEvent(context,{maxQueue:1},handler,'row',emitter);
+    [1,3,4].forEach(n => emitter.emit('row',n));
+    expect(await strict).to.be.an('error').with.property('message').that.contains('overflowed');
+  });
+
+  m.it('should filter, deduplicate, throttle and debounce listen-on', async function () {
+    let context = new RpsContext;
+    let basic = new RPSBasic;
+    let emitter = new EventEmitter;
+    let seen = {filtered:[], distinct:[], throttled:[], debounced:[], leading:[]};
+    let sleep = ms => new Promise(resolve => setTimeout(resolve, ms));
+
+    await basic.on(context,{filter:n => n % 2 === 0},'n',([n]) => seen.filtered.push(n),emitter);
+    await basic.on(context,{distinct:true},'n',([n]) => seen.distinct.push(n),emitter);
+    await basic.on(context,{throttle:10},'n',([n]) => seen.throttled.push(n),emitter);
+    await basic.on(context,{debounce:0.02},'n',([n]) => seen.debounced.push(n),emitter);
+    await basic.on(context,{debounce:0.02,leading:true,trailing:false},'n',([n]) => seen.leading.push(n),emitter);
+
+    [1,1,2,2,3].forEach(n => emitter.emit('n',n));
+    await sleep(50);
+    emitter.emit('n',4);
+    await sleep(50);
+
+    expect(seen).to.be.deep.equals({
+      filtered:[2,2,4], distinct:[1,2,3,4], throttled:[1], debounced:[3,4], leading:[1,4]
+    });
+  });
+
+  m.it('should report listen-on errors with no caller to go back to', async function () {
+    let context = new RpsContext;
+    let basic = new RPSBasic;
+    let sink = new MemorySink;
+    let emitter = new EventEmitter;
+    let errors = [];
+    context.addModuleContext('basic',{output:sink});
+
+    await basic.on(context,{debounce:0.01},'n',() => { throw new Error('handler failed'); },emitter);
+    await basic.on(context,{filter:() => { throw new Error('filter failed'); }},'n',() => {},emitter);
+
+    emitter.emit('n',1);
+    await new Promise(resolve => setTimeout(resolve, 30));
+    expect(sink.text('stderr')).to.be.equals("Listener of 'n' failed: filter failed\nListener of 'n' failed: handler failed\n");
+
+    emitter.on('error', err => errors.push(err.message));
+    emitter.emit('n',2);
+    await new Promise(resolve => setTimeout(resolve, 30));
+    expect(errors).to.be.deep.equals(['filter failed','handler failed']);
+
+    sink.clear();
+    let other = new EventEmitter;
+    await basic.on(context,{debounce:0.01},'async',async () => { throw new Error('async handler failed'); },other);
+    other.emit('async');
+    await new Promise(resolve => setTimeout(resolve, 30));
+    expect(sink.text('stderr')).to.be.equals("Listener of 'async' failed: async handler failed\n");
+  });
+
+  m.it('should wait for an async listen-on filter', async function () {
+    let context = new RpsContext;
+    let basic = new RPSBasic;
+    let emitter = new EventEmitter;
+    let seen = [];
+
+    await basic.on(context,{filter:async n => n > 5},'n',([n]) => seen.push(n),emitter);
+    emitter.emit('n',1);
+    emitter.emit('n',10);
+    await new Promise(resolve => setImmediate(resolve));
+
+    expect(seen).to.be.deep.equals([10]);
+  });
+
+  m.it('should publish and subscribe on the bus of the context', async function () {
+    let context = new RpsContext;
+    let basic = new RPSBasic;
+    let received = {order:[], any:[], paid:[]};
+
+    await basic.publish(context,{retain:true},'job.status','running');
+    await basic.subscribe(context,{},'order.*',p => received.order.push(p));
+    await basic.subscribe(context,{name:'any'},'**',([payload]) => received.any.push(payload));
+
+    let next = basic.listenOnce(context,{},'order.paid');
+    expect(await basic.publish(context,{},'order.created',{id:1})).to.be.deep.equals({id:1});
+    await basic.publish(context,{},'order.paid',{id:1});
+    await basic.publish(context,{},'order.line.added',{id:2});
+
+    expect(await next).to.be.deep.equals([{id:1},'order.paid']);
+    expect(await basic.listenOnce(context,{},'job.*')).to.be.deep.equals(['running','job.status']);
+    expect(received.order).to.be.deep.equals([[{id:1},'order.created'],[{id:1},'order.paid']]);
+    expect(received.any).to.be.deep.equals(['running',{id:1},{id:1},{id:2}]);
+
+    expect(await basic.off(context,{},'any')).to.be.equals(1);
+    expect(await basic.publish(context,{},'order.*',{})).to.be.an('error');
+  });
+
+  m.it('should keep the bus of each context apart', async function () {
+    let basic = new RPSBasic;
+    let context = new RpsContext, other = new RpsContext;
+    let received = [];
+
+    await basic.publish(context,{retain:true},'job.status','running');
+    await basic.subscribe(other,{},'job.*',([payload]) => received.push(payload));
+    await basic.publish(context,{},'job.status','done');
+    await basic.publish(other,{},'job.status','idle');
+
+    expect(received).to.be.deep.equals(['idle']);
+  });
+
+  m.it('should wait without blocking, with durations and cancellation', async function () {
+    let context = new RpsContext;
+    let basic = new RPSBasic;
+    let ticks = 0;
+    let timer = setInterval(() => ticks++, 5);
+
+    expect(await basic.wait(context,{},'50ms','done')).to.be.equals('done');
+    clearInterval(timer);
+    expect(ticks).to.be.above(2);
+
+    let handle = await basic.cancelHandle(context,{});
+    let cancelled = basic.wait(context,{signal:handle},'1h30m',1);
+    handle.cancel('stop');
+    expect(await cancelled).to.be.an.instanceof(AbortError);
+
+    expect(await basic.wait(context,{},'soon',1)).to.be.an('error');
+  });
+
+  m.it('should poll with wait-until', async function () {
+    let context = new RpsContext;
+    let basic = new RPSBasic;
+    let attempts = [];
+    let ready = async attempt => {
+      attempts.push(attempt);
+      return attempt === 3 && {status:'done'};
+    };
+
+    expect(await basic.waitUntil(context,{interval:'10ms',backoff:2},ready)).to.be.deep.equals({status:'done'});
+    expect(attempts).to.be.deep.equals([1,2,3]);
+
+    let timedOut = await basic.waitUntil(context,{interval:0.01,timeout:'50ms'},() => false);
+    expect(timedOut).to.be.an.instanceof(TimeoutError);
+
+    let exhausted = await basic.waitUntil(context,{interval:0,maxAttempts:4},() => null);
+    expect(exhausted.message).to.be.equals('Condition not met after 4 attempts');
+
+    expect(await basic.waitUntil(context,{},() => { throw new Error('offline'); })).to.be.an('error');
+
+    let never = () => new Promise(() => {});
+    expect(await basic.waitUntil(context,{timeout:'20ms'},never)).to.be.an.instanceof(TimeoutError);
+
+    let handle = await basic.cancelHandle(context,{});
+    let cancelled = basic.waitUntil(context,{signal:handle},never);
+    handle.cancel('stop');
+    expect(await cancelled).to.be.an.instanceof(AbortError).with.property('reason','stop');
+  });
+
+  m.it('should run exit hooks in reverse order before exiting with the code', async function () {
+    let context = new RpsContext;
+    let basic = new RPSBasic;
+    let sink = new MemorySink;
+    let calls = [];
+    let exit = process.exit;
+    context.addModuleContext('basic',{output:sink});
+
+    await basic.onExit(context,{},() => calls.push('first'));
+    await basic.onExit(context,{timeout:'20ms'},() => new Promise(resolve => setTimeout(resolve, 1000)));
+    await basic.onExit(context,{},async () => { calls.push('last'); throw new Error('busy'); });
+
+    process.exit = <any>(code => calls.push(code));
+    try {
+      await basic.exit(context,{reason:'Login failed'},3);
+      await basic.exit(context,{});
+    }
+    finally {
+      process.exit = exit;
+    }
+
+    expect(calls).to.be.deep.equals(['last','first',3,0]);
+    expect(sink.text('stderr')).to.be.equals(
+      'Login failed\nExit hook failed: busy\nExit hook failed: Exit hook timed out after 0.02s\n');
+  });
+
+  m.it('should run exit hooks once when the process is terminated', async function () {
+    let context = new RpsContext;
+    let basic = new RPSBasic;
+    let calls = [];
+    let exit = process.exit;
+    context.addModuleContext('basic',{output:new MemorySink});
+
+    await basic.onExit(context,{},() => calls.push('cleanup'));
+
+    let exited = new Promise(resolve => process.exit = <any>(code => resolve(calls.push(code))));
+    try {
+      process.emit(<any>'SIGTERM');
+      await exited;
+      await basic.exit(context,{});
+    }
+    finally {
+      process.exit = exit;
+    }
+
+    expect(calls).to.be.deep.equals(['cleanup',143,0]);
+  });
+
+  m.it('should check the exit code and run the exit hooks of every context', async function () {
+    let context = new RpsContext, other = new RpsContext;
+    let basic = new RPSBasic;
+    let calls = [];
+    let exit = process.exit;
+    context.addModuleContext('basic',{output:new MemorySink});
+
+    await basic.onExit(context,{},() => calls.push('mine'));
+    await basic.onExit(other,{},() => calls.push('other'));
+
+    process.exit = <any>(code => calls.push(code));
+    try {
+      expect(await basic.exit(context,{},<any>'abc')).to.be.an('error').with.property('message',"Invalid exit code 'abc', expected an integer");
+      expect(await basic.exit(context,{},2.5)).to.be.an('error');
+      expect(calls).to.be.deep.equals([]);
+
+      await basic.exit(context,{},<any>'1');
+    }
+    finally {
+      process.exit = exit;
+    }
+
+    expect(calls).to.have.members(['mine','other',1]);
+    expect(calls[2]).to.be.equals(1);
+  });
+
   m.it('should pop up hello world notification', async function () {
     let context = new RpsContext;
     let basic = new RPSBasic;
@@ -32,7 +738,7 @@ m.describe('Basic', () => {
 
     console.log('hello');
     let fn = await basic.wait(context,{},1);
-    let output = fn('world');
+    let output = await fn('world');
     console.log(output);
 
     console.log(await basic.wait(context,{},1,'welcome'));